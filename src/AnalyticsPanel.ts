@@ -0,0 +1,183 @@
+import { NN_HISTOGRAM_BINS, SwarmMetricsSample } from './SwarmMetrics';
+
+// Chart size in CSS pixels
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 44;
+const CHART_GAP = 16;
+
+interface ChartSpec {
+    label: string;
+    unit: string;
+    value: (s: SwarmMetricsSample) => number;
+    band?: (s: SwarmMetricsSample) => [number, number];
+    fixedMax?: number;          // Y axis top (auto-scaled when omitted)
+    color: string;
+}
+
+const CHARTS: ChartSpec[] = [
+    { label: 'Polarization', unit: '', value: s => s.polarization, fixedMax: 1, color: '#0ff' },
+    { label: 'Milling', unit: '', value: s => s.angularMomentum, fixedMax: 1, color: '#f0f' },
+    { label: 'NN Distance (p10-p90)', unit: ' m', value: s => s.nnMedian, band: s => [s.nnP10, s.nnP90], color: '#ff0' },
+    { label: 'Group Radius', unit: ' m', value: s => s.groupRadius, color: '#0f0' },
+    { label: 'Clusters', unit: '', value: s => s.clusterCount, color: '#fa0' }
+];
+
+/**
+ * Rolling charts of the swarm metrics (SwarmMetrics), shown beside the
+ * Performance Monitor. Keeps its own copy of the samples it has been given,
+ * so it works the same with the simulation on the main thread or in the worker.
+ */
+export class AnalyticsPanel {
+    private element: HTMLDivElement;
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private samples: SwarmMetricsSample[] = [];
+    private maxSamples = 240;
+
+    constructor() {
+        this.element = document.createElement('div');
+        this.element.style.position = 'fixed';
+        this.element.style.top = '10px';
+        this.element.style.right = '10px';
+        this.element.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+        this.element.style.color = '#0f0';
+        this.element.style.fontFamily = 'monospace';
+        this.element.style.fontSize = '12px';
+        this.element.style.padding = '10px';
+        this.element.style.borderRadius = '5px';
+        this.element.style.zIndex = '1000';
+        this.element.style.display = 'none';
+
+        const title = document.createElement('div');
+        title.style.color = '#ff0';
+        title.style.fontSize = '14px';
+        title.style.marginBottom = '5px';
+        title.textContent = '📈 Swarm Analytics';
+        this.element.appendChild(title);
+
+        const height = (CHARTS.length + 1) * (CHART_HEIGHT + CHART_GAP);
+        const ratio = window.devicePixelRatio || 1;
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = CHART_WIDTH * ratio;
+        this.canvas.height = height * ratio;
+        this.canvas.style.width = `${CHART_WIDTH}px`;
+        this.canvas.style.height = `${height}px`;
+        this.ctx = this.canvas.getContext('2d') as CanvasRenderingContext2D;
+        this.ctx.scale(ratio, ratio);
+        this.element.appendChild(this.canvas);
+
+        document.body.appendChild(this.element);
+    }
+
+    setVisible(visible: boolean): void {
+        if (visible && this.element.style.display === 'none') {
+            this.element.style.display = 'block';
+            this.draw();
+        } else if (!visible) {
+            this.element.style.display = 'none';
+        }
+    }
+
+    /**
+     * Keep the panel `offset` pixels from the right edge, i.e. left of the Performance Monitor
+     */
+    setRightOffset(offset: number): void {
+        this.element.style.right = `${offset}px`;
+    }
+
+    /**
+     * Record the latest sample (ignored if already seen) and redraw when it is new.
+     * A sample older than the last one means the swarm was rebuilt: start over.
+     */
+    update(sample: SwarmMetricsSample | null, maxSamples: number): void {
+        this.maxSamples = maxSamples;
+        if (!sample) return;
+
+        const last = this.samples[this.samples.length - 1];
+        if (last && sample.time === last.time) return;
+        if (last && sample.time < last.time) this.samples = [];
+
+        this.samples.push(sample);
+        if (this.samples.length > this.maxSamples) {
+            this.samples.splice(0, this.samples.length - this.maxSamples);
+        }
+        if (this.element.style.display !== 'none') this.draw();
+    }
+
+    private draw(): void {
+        const ctx = this.ctx;
+        ctx.clearRect(0, 0, CHART_WIDTH, (CHARTS.length + 1) * (CHART_HEIGHT + CHART_GAP));
+        ctx.font = '11px monospace';
+
+        CHARTS.forEach((chart, i) => this.drawChart(chart, i * (CHART_HEIGHT + CHART_GAP)));
+        this.drawHistogram(CHARTS.length * (CHART_HEIGHT + CHART_GAP));
+    }
+
+    private drawChart(chart: ChartSpec, top: number): void {
+        const ctx = this.ctx;
+        const samples = this.samples;
+        const latest = samples[samples.length - 1];
+        const y0 = top + CHART_GAP;
+
+        ctx.fillStyle = '#aaa';
+        ctx.fillText(`${chart.label}: ${latest ? formatValue(chart.value(latest)) + chart.unit : '-'}`, 0, top + 11);
+        ctx.strokeStyle = '#333';
+        ctx.strokeRect(0.5, y0 + 0.5, CHART_WIDTH - 1, CHART_HEIGHT - 1);
+        if (samples.length < 2) return;
+
+        let max = chart.fixedMax ?? 0;
+        if (chart.fixedMax === undefined) {
+            for (const s of samples) {
+                max = Math.max(max, chart.band ? chart.band(s)[1] : chart.value(s));
+            }
+            max = max > 0 ? max * 1.1 : 1;
+        }
+        const x = (k: number) => (k / (this.maxSamples - 1)) * (CHART_WIDTH - 2) + 1;
+        const y = (v: number) => y0 + CHART_HEIGHT - 1 - Math.min(1, Math.max(0, v / max)) * (CHART_HEIGHT - 2);
+
+        if (chart.band) {
+            ctx.fillStyle = 'rgba(255, 255, 0, 0.15)';
+            ctx.beginPath();
+            samples.forEach((s, k) => ctx.lineTo(x(k), y(chart.band!(s)[1])));
+            for (let k = samples.length - 1; k >= 0; k--) ctx.lineTo(x(k), y(chart.band(samples[k])[0]));
+            ctx.closePath();
+            ctx.fill();
+        }
+
+        ctx.strokeStyle = chart.color;
+        ctx.beginPath();
+        samples.forEach((s, k) => ctx.lineTo(x(k), y(chart.value(s))));
+        ctx.stroke();
+    }
+
+    /**
+     * Nearest-neighbor distance distribution of the latest sample
+     */
+    private drawHistogram(top: number): void {
+        const ctx = this.ctx;
+        const latest = this.samples[this.samples.length - 1];
+        const y0 = top + CHART_GAP;
+
+        ctx.fillStyle = '#aaa';
+        ctx.fillText(`NN Histogram${latest ? ` (isolated ${latest.isolated})` : ''}`, 0, top + 11);
+        ctx.strokeStyle = '#333';
+        ctx.strokeRect(0.5, y0 + 0.5, CHART_WIDTH - 1, CHART_HEIGHT - 1);
+        if (!latest) return;
+
+        const max = Math.max(1, ...latest.nnHistogram);
+        const barWidth = (CHART_WIDTH - 2) / NN_HISTOGRAM_BINS;
+        ctx.fillStyle = '#ff0';
+        latest.nnHistogram.forEach((n, b) => {
+            const h = (n / max) * (CHART_HEIGHT - 2);
+            ctx.fillRect(1 + b * barWidth + 1, y0 + CHART_HEIGHT - 1 - h, barWidth - 2, h);
+        });
+    }
+
+    destroy(): void {
+        this.element.remove();
+    }
+}
+
+function formatValue(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) < 10 ? 3 : 1);
+}
@@ -0,0 +1,153 @@
+import { Vector3 } from 'three';
+import { Boid } from './Boid';
+import { BoidBuffers } from './BoidBuffers';
+import { BoidConfig } from './BoidConfig';
+import { GRAVITY } from './DroneDynamics';
+
+/**
+ * Flight phase driven by the battery:
+ * - 'flying':    normal flocking / story flight
+ * - 'returning': battery low, flying back to the launch pad
+ * - 'depleted':  battery empty, descending where it is
+ * - 'landed':    on the ground, motors off
+ */
+export type EnergyState = 'flying' | 'returning' | 'depleted' | 'landed';
+
+/**
+ * Fleet-wide energy summary
+ */
+export interface FleetEnergyStats {
+    fleetEnergy: number;        // Remaining energy of all drones (Wh)
+    fleetCapacity: number;      // Energy of a fully charged fleet (Wh)
+    avgBatteryLevel: number;    // Mean charge (0-1)
+    minBatteryLevel: number;    // Lowest charge (0-1)
+    returningCount: number;     // Drones heading home or descending on an empty battery
+    landedCount: number;
+    endurance: number;          // Hover time from full charge to the return threshold (s)
+}
+
+// Angle between consecutive landing spots (radians)
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+// How close to its landing spot a returning drone must touch down (m)
+const TOUCHDOWN_TOLERANCE = 2;
+const _spot = new Vector3();
+
+/**
+ * Battery drain and return-to-home logic.
+ *
+ * Power draw = hover power + a term growing with horizontal speed² + the power
+ * needed to climb (m·g·climb rate / efficiency). Remaining energy per drone is
+ * kept in `BoidBuffers.batteryEnergy` (Wh).
+ */
+export class BatteryModel {
+    /**
+     * Electrical power (W) drawn when flying with velocity (vx, vy, vz)
+     */
+    static power(vx: number, vy: number, vz: number, config: BoidConfig): number {
+        const climbPower = vy > 0 ? config.droneMass * GRAVITY * vy / config.propulsionEfficiency : 0;
+        return config.hoverPower + config.speedPowerCoefficient * (vx * vx + vz * vz) + climbPower;
+    }
+
+    /**
+     * Hover time (s) from a full battery down to the return threshold
+     */
+    static endurance(config: BoidConfig): number {
+        return config.batteryCapacity * (1 - config.returnThreshold) * 3600 / config.hoverPower;
+    }
+
+    /**
+     * Touchdown spot of drone `id` on the launch pad (sunflower layout around
+     * `config.launchPad`, `config.landingSpacing` apart)
+     */
+    static landingSpot(id: number, config: BoidConfig, out: Vector3): Vector3 {
+        const r = config.landingSpacing * Math.sqrt(id);
+        const angle = id * GOLDEN_ANGLE;
+        return out.set(
+            config.launchPad.x + r * Math.cos(angle),
+            config.launchPad.y,
+            config.launchPad.z + r * Math.sin(angle)
+        );
+    }
+
+    /**
+     * Fill slot `index` to full charge
+     */
+    static charge(buffers: BoidBuffers, index: number, config: BoidConfig): void {
+        buffers.batteryEnergy[index] = config.batteryCapacity;
+    }
+
+    /**
+     * Land a descending drone once it reaches pad height: on its landing spot
+     * if returning, anywhere if depleted. Returns true if it touched down.
+     */
+    static touchdown(boid: Boid, buffers: BoidBuffers, config: BoidConfig): boolean {
+        if (boid.energyState !== 'returning' && boid.energyState !== 'depleted') return false;
+
+        const pos = buffers.positions;
+        const i = boid.index * 3;
+        if (pos[i + 1] > config.launchPad.y + 0.5) return false;
+
+        if (boid.energyState === 'returning') {
+            BatteryModel.landingSpot(boid.id, config, _spot);
+            const dx = pos[i] - _spot.x;
+            const dz = pos[i + 2] - _spot.z;
+            if (dx * dx + dz * dz > TOUCHDOWN_TOLERANCE * TOUCHDOWN_TOLERANCE) return false;
+        }
+        boid.energyState = 'landed';
+        return true;
+    }
+
+    /**
+     * Drain every airborne drone by one step and advance its energy state
+     */
+    update(boids: Boid[], buffers: BoidBuffers, config: BoidConfig, dt: number): void {
+        const vel = buffers.velocities;
+        const energy = buffers.batteryEnergy;
+
+        for (const boid of boids) {
+            if (boid.energyState === 'landed') continue;
+
+            const s = boid.index;
+            const i = s * 3;
+            const used = BatteryModel.power(vel[i], vel[i + 1], vel[i + 2], config) * dt / 3600;
+            energy[s] = Math.max(0, energy[s] - used);
+
+            if (BatteryModel.touchdown(boid, buffers, config)) continue;
+
+            if (energy[s] === 0) {
+                boid.energyState = 'depleted';
+            } else if (boid.energyState === 'flying' && energy[s] < config.batteryCapacity * config.returnThreshold) {
+                boid.energyState = 'returning';
+            }
+        }
+    }
+
+    /**
+     * Summarize the energy state of the fleet
+     */
+    getFleetStats(boids: Boid[], buffers: BoidBuffers, config: BoidConfig): FleetEnergyStats {
+        let total = 0;
+        let min = Infinity;
+        let returning = 0;
+        let landed = 0;
+
+        for (const boid of boids) {
+            const e = buffers.batteryEnergy[boid.index];
+            total += e;
+            if (e < min) min = e;
+            if (boid.energyState === 'returning' || boid.energyState === 'depleted') returning++;
+            if (boid.energyState === 'landed') landed++;
+        }
+
+        const capacity = config.batteryCapacity * boids.length;
+        return {
+            fleetEnergy: total,
+            fleetCapacity: capacity,
+            avgBatteryLevel: capacity > 0 ? total / capacity : 0,
+            minBatteryLevel: boids.length > 0 ? min / config.batteryCapacity : 0,
+            returningCount: returning,
+            landedCount: landed,
+            endurance: BatteryModel.endurance(config)
+        };
+    }
+}
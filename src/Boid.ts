@@ -1,14 +1,55 @@
 import { Vector3, Color } from 'three';
 import { BoidConfig } from './BoidConfig';
+import { Obstacle } from './Obstacle';
+import { BoidBuffers, BufferVector3 } from './BoidBuffers';
+import { DroneDynamics } from './DroneDynamics';
+import { BatteryModel, EnergyState } from './Battery';
+import { PerceptionModel } from './PerceptionModel';
+import { FaultType } from './FaultInjector';
+import { ForceField } from './ForceField';
+import { zoneDepth } from './Geofence';
+
+// Scratch vectors shared by all Boids so steering never allocates
+const _force = new Vector3();
+const _sep = new Vector3();
+const _align = new Vector3();
+const _coh = new Vector3();
+const _desired = new Vector3();
+const _target = new Vector3();
+const _forward = new Vector3();
+const _feeler = new Vector3();
+const _side = new Vector3();
+const _up = new Vector3();
+const _hitNormal = new Vector3();
+const _closestNormal = new Vector3();
+const WORLD_UP = new Vector3(0, 1, 0);
+// Where the Boid being steered believes it is (its GPS fix with the perception model on)
+const _self = new Vector3();
+
+// Neighbor sums from the last gatherNeighbors() pass (shared scratch state)
+const neighborSums = {
+    sepSame: 0,
+    sepOther: 0,
+    align: 0,
+    coh: 0
+};
 
 /**
  * Individual Boid entity (drone)
+ *
+ * A thin view over slot `index` of the swarm's BoidBuffers: `position`, `velocity`,
+ * `acceleration` and `previousPosition` read and write the shared Float32Arrays.
  */
 export class Boid {
     id: number;
-    position: Vector3;
-    velocity: Vector3;
-    acceleration: Vector3;
+    // Slot in the BoidBuffers arrays (changes when other Boids are removed)
+    index: number;
+    readonly position: BufferVector3;
+    readonly velocity: BufferVector3;
+    readonly acceleration: BufferVector3;
+    // Position at the start of the last simulation step (used for render interpolation)
+    readonly previousPosition: BufferVector3;
+    private buffers: BoidBuffers;
 
     // --- Story Mode Properties ---
     // When set, this Boid will ignore normal flocking and seek this target.
@@ -19,314 +60,693 @@ export class Boid {
     public lightIntensity: number = 1.0;
     // Used in Scene 3 to store group color and ratio info
     public groupData: any = null;
+    // Index into config.groupProfiles (-1 = no profile); assigned by BoidSystem
+    groupId: number = -1;
     public color: Color = new Color(0xffffff); // Default color is white
 
 
     // Wander behavior state
     private wanderAngle: number = 0;
+    // Story position hold: set within formationTolerance of the target, cleared at twice that
+    private holdingPosition: boolean = false;
+
+    // Whether the Boid ended the last step inside an obstacle
+    insideObstacle: boolean = false;
+    // Whether the Boid is closer than the collision radius to another (see SafetyMonitor)
+    inCollision: boolean = false;
+    // Geofence zone the Boid is breaching, if any (see GeofenceMonitor)
+    geofenceBreach: string | null = null;
+
+    // Battery-driven flight phase (see BatteryModel)
+    energyState: EnergyState = 'flying';
+    // Injected failure, if any (see FaultInjector)
+    fault: FaultType | null = null;
+
+    // --- Leader-Follower State ---
+    // Whether this Boid is currently a leader (mirrors config.leaderIds)
+    isLeader: boolean = false;
+    // Nearest visible leader this Boid follows, assigned by BoidSystem each step
+    leader: Boid | null = null;
+    // Current waypoint for leaders in 'waypoints' mode
+    private waypointIndex: number = 0;
+
+    constructor(id: number, buffers: BoidBuffers, index: number) {
+        this.id = id;
+        this.index = index;
+        this.buffers = buffers;
+        const offset = index * 3;
+        this.position = new BufferVector3(buffers.positions, offset);
+        this.velocity = new BufferVector3(buffers.velocities, offset);
+        this.acceleration = new BufferVector3(buffers.accelerations, offset);
+        this.previousPosition = new BufferVector3(buffers.previousPositions, offset);
+    }
 
-    // Cached neighbor list (performance optimization)
-    neighbors: Boid[] = [];
+    /**
+     * Re-point the vector views after the buffers were reallocated or the slot moved
+     */
+    bind(index: number): void {
+        const offset = index * 3;
+        this.index = index;
+        this.position.bind(this.buffers.positions, offset);
+        this.velocity.bind(this.buffers.velocities, offset);
+        this.acceleration.bind(this.buffers.accelerations, offset);
+        this.previousPosition.bind(this.buffers.previousPositions, offset);
+    }
 
-    constructor(id: number, position?: Vector3, velocity?: Vector3) {
-        this.id = id;
-        this.position = position || new Vector3();
-        this.velocity = velocity || new Vector3(
-            Math.random() - 0.5,
-            Math.random() - 0.5,
-            Math.random() - 0.5
-        ).normalize();
-        this.acceleration = new Vector3();
+    /**
+     * Number of neighbors found in the last step
+     */
+    get neighborCount(): number {
+        return this.buffers.neighborCounts[this.index];
+    }
+
+    /**
+     * Heading (yaw, radians) maintained by the drone dynamics model
+     */
+    get heading(): number {
+        return this.buffers.headings[this.index];
     }
 
     /**
-     * Update Boid state
+     * Remaining battery energy (Wh)
      */
-    update(config: BoidConfig): void {
-        // Apply acceleration
-        this.velocity.add(this.acceleration);
+    get batteryEnergy(): number {
+        return this.buffers.batteryEnergy[this.index];
+    }
 
-        // Limit speed
-        const speed = this.velocity.length();
-        if (speed > config.maxSpeed) {
-            this.velocity.divideScalar(speed).multiplyScalar(config.maxSpeed);
+    /**
+     * Update Boid state by one simulation step of `dt` seconds.
+     * The accumulated steering is either applied directly (limited to maxAcceleration)
+     * or, with `config.useDroneDynamics`, tracked by the quadrotor model.
+     */
+    update(config: BoidConfig, dt: number, dynamics: DroneDynamics): void {
+        const pos = this.buffers.positions;
+        const vel = this.buffers.velocities;
+        const acc = this.buffers.accelerations;
+        const prev = this.buffers.previousPositions;
+        const i = this.index * 3;
+
+        prev[i] = pos[i];
+        prev[i + 1] = pos[i + 1];
+        prev[i + 2] = pos[i + 2];
+
+        // Landed drones stay put with motors off
+        if (this.energyState === 'landed') {
+            vel[i] = vel[i + 1] = vel[i + 2] = 0;
+            acc[i] = acc[i + 1] = acc[i + 2] = 0;
+            return;
+        }
+
+        if (config.useDroneDynamics) {
+            dynamics.integrate(this.buffers, this.index, config, dt);
+        } else {
+            // Apply acceleration (m/s²), limited to maxAcceleration
+            let ax = acc[i];
+            let ay = acc[i + 1];
+            let az = acc[i + 2];
+            const accel = Math.sqrt(ax * ax + ay * ay + az * az);
+            if (accel > config.maxAcceleration) {
+                const s = config.maxAcceleration / accel;
+                ax *= s;
+                ay *= s;
+                az *= s;
+                dynamics.saturation.acceleration++;
+            }
+
+            // Wind pushes on top of the steering: quadratic drag relative to the moving air
+            if (config.useWind) {
+                const wind = this.buffers.winds;
+                const rx = wind[i] - vel[i];
+                const ry = wind[i + 1] - vel[i + 1];
+                const rz = wind[i + 2] - vel[i + 2];
+                const k = config.dragCoefficient / config.droneMass * Math.sqrt(rx * rx + ry * ry + rz * rz);
+                ax += k * rx;
+                ay += k * ry;
+                az += k * rz;
+            }
+
+            let vx = vel[i] + ax * dt;
+            let vy = vel[i + 1] + ay * dt;
+            let vz = vel[i + 2] + az * dt;
+
+            // Limit speed
+            const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+            if (speed > config.maxSpeed) {
+                const s = config.maxSpeed / speed;
+                vx *= s;
+                vy *= s;
+                vz *= s;
+            }
+            vel[i] = vx;
+            vel[i + 1] = vy;
+            vel[i + 2] = vz;
         }
 
-        // Update position
-        this.position.add(this.velocity);
+        // Update position (m/s)
+        pos[i] += vel[i] * dt;
+        pos[i + 1] += vel[i + 1] * dt;
+        pos[i + 2] += vel[i + 2] * dt;
 
         // Handle boundaries
         this.handleBoundaries(config);
 
         // Reset acceleration
-        this.acceleration.set(0, 0, 0);
+        acc[i] = 0;
+        acc[i + 1] = 0;
+        acc[i + 2] = 0;
+    }
+
+    /**
+     * Interpolated position between the last two simulation steps
+     */
+    getRenderPosition(alpha: number, out: Vector3): Vector3 {
+        const pos = this.buffers.positions;
+        const prev = this.buffers.previousPositions;
+        const i = this.index * 3;
+        return out.set(
+            prev[i] + (pos[i] - prev[i]) * alpha,
+            prev[i + 1] + (pos[i + 1] - prev[i + 1]) * alpha,
+            prev[i + 2] + (pos[i + 2] - prev[i + 2]) * alpha
+        );
     }
 
     /**
      * Apply steering force
      */
     applyForce(force: Vector3, config: BoidConfig): void {
-        // Limit maximum force
-        if (force.length() > config.maxForce) {
-            force.normalize().multiplyScalar(config.maxForce);
+        this.addForce(force.x, force.y, force.z, config);
+    }
+
+    /**
+     * Apply steering force given as components (limited to maxForce)
+     */
+    private addForce(fx: number, fy: number, fz: number, config: BoidConfig): void {
+        const lengthSq = fx * fx + fy * fy + fz * fz;
+        if (lengthSq > config.maxForce * config.maxForce) {
+            const s = config.maxForce / Math.sqrt(lengthSq);
+            fx *= s;
+            fy *= s;
+            fz *= s;
         }
-        this.acceleration.add(force);
+        const acc = this.buffers.accelerations;
+        const i = this.index * 3;
+        acc[i] += fx;
+        acc[i + 1] += fy;
+        acc[i + 2] += fz;
+    }
+
+    /**
+     * Apply a scaled steering vector
+     */
+    private addWeighted(force: Vector3, weight: number, config: BoidConfig): void {
+        this.addForce(force.x * weight, force.y * weight, force.z * weight, config);
     }
 
     /**
-     * Calculate all behavior forces
+     * Calculate all behavior forces. With a perception model, neighbors and the
+     * Boid's own position are seen through it (noisy, delayed, lossy).
      */
-    calculateForces(_allBoids: Boid[], config: BoidConfig): void {
+    calculateForces(
+        allBoids: Boid[],
+        config: BoidConfig,
+        obstacles: readonly Obstacle[] = [],
+        perception: PerceptionModel | null = null,
+        forceFields: readonly ForceField[] = []
+    ): void {
+        // Frozen or drifting drones steer nothing until their failsafe takes over
+        if ((this.fault === 'freeze' || this.fault === 'drift') && this.energyState === 'flying') return;
+
+        if (perception) {
+            const o = perception.ownState(this.index);
+            _self.set(perception.history[o], perception.history[o + 1], perception.history[o + 2]);
+        } else {
+            _self.copy(this.position);
+        }
+
+        // Obstacle avoidance applies in every mode, story included
+        if (obstacles.length > 0 && config.avoidanceWeight > 0) {
+            this.addWeighted(this.avoidObstacles(obstacles, config, _force), config.avoidanceWeight, config);
+        }
+
+        // So do geofences
+        if (config.geofences.length > 0 && config.geofenceWeight > 0) {
+            this.addWeighted(this.geofenceForce(config, _force), config.geofenceWeight, config);
+        }
+
+        // Low battery overrides story and flocking
+        if (this.energyState !== 'flying') {
+            if (this.energyState !== 'landed') {
+                this.applyForce(this.returnHome(config, _force), config);
+            }
+            return;
+        }
+
         // --- Story Mode Override ---
         // If a story target is set, we override all other behaviors
         // and apply a strong force towards that target.
         if (this.storyTarget) {
-            const storyForce = this.seek(this.storyTarget, config).multiplyScalar(config.targetWeight * 2); // Give it extra weight
-            this.applyForce(storyForce, config);
+            this.applyForce(this.arrive(this.storyTarget, config, _force), config);
+            // Holding drones ignore neighbors so formations stay still
+            if (this.holdingPosition) return;
             // Optionally, add a small amount of separation to prevent clumping at the target
-            const separation = this.separate(config).multiplyScalar(config.separationWeight * 0.1);
-            this.applyForce(separation, config);
+            // (limited before weighting, so it stays a fraction of the arrival steering)
+            this.gatherNeighbors(allBoids, config, false, perception);
+            this.separationForce(config, _force).clampLength(0, config.maxForce);
+            this.addWeighted(_force, config.separationWeight * 0.1, config);
             return;
         }
 
         if (!config.enableFlocking) return;
 
+        // Leaders fly their own path and only keep clear of others
+        if (this.isLeader) {
+            this.gatherNeighbors(allBoids, config, false, perception);
+            this.addWeighted(this.separationForce(config, _force), config.separationWeight, config);
+            this.addWeighted(this.boundaryForce(config, _force), config.boundaryForce, config);
+            this.applyForce(this.leaderPath(config, _force), config);
+            return;
+        }
+
         // If group-aware mode is enabled, compute forces with group separation:
         // - Alignment & cohesion only from same-group neighbors
         // - Separation from same-group neighbors as usual, and an extra inter-group separation
-        if (config.groupAwareMode && this.groupData) {
-            const sep = new Vector3();
-            const sepCount = { same: 0, other: 0 };
-
-            const align = new Vector3();
-            let alignCount = 0;
-
-            const cohPos = new Vector3();
-            let cohCount = 0;
-
-            for (const other of this.neighbors) {
-                const distance = this.position.distanceTo(other.position);
-                if (distance <= 0) continue;
-
-                const sameGroup = other.groupData && this.groupData && other.groupData === this.groupData;
-
-                if (sameGroup) {
-                    if (distance < config.separationDistance) {
-                        const diff = new Vector3().subVectors(this.position, other.position).normalize().divideScalar(distance);
-                        sep.add(diff);
-                        sepCount.same++;
-                    }
-
-                    if (distance < config.alignmentDistance) {
-                        align.add(other.velocity);
-                        alignCount++;
-                    }
-
-                    if (distance < config.cohesionDistance) {
-                        cohPos.add(other.position);
-                        cohCount++;
-                    }
-                } else {
-                    // Other-group separation if within interGroupSeparationDistance
-                    if (distance < config.interGroupSeparationDistance) {
-                        const diff = new Vector3().subVectors(this.position, other.position).normalize().divideScalar(distance);
-                        sep.add(diff);
-                        sepCount.other++;
-                    }
-                }
-            }
-
-            // Compose separation
-            let separationForce = new Vector3();
-            if (sepCount.same > 0) {
-                separationForce.add(sep.clone().divideScalar(sepCount.same).normalize().multiplyScalar(config.maxSpeed).sub(this.velocity));
-            }
-            if (sepCount.other > 0) {
-                const otherSep = sep.clone().divideScalar(sepCount.other).normalize().multiplyScalar(config.maxSpeed).sub(this.velocity);
-                separationForce.add(otherSep.multiplyScalar(config.interGroupSeparationWeight));
+        const groupAware = config.groupAwareMode && (!!this.groupData || this.groupId >= 0);
+        this.gatherNeighbors(allBoids, config, groupAware, perception);
+
+        if (groupAware) {
+            // Compose separation: same-group and (weighted) other-group terms
+            _force.set(0, 0, 0);
+            if (neighborSums.sepSame > 0) {
+                _force.add(this.separationForce(config, _desired));
             }
-
-            // Alignment (same-group)
-            let alignmentForce = new Vector3();
-            if (alignCount > 0) {
-                alignmentForce.copy(align.divideScalar(alignCount).normalize().multiplyScalar(config.maxSpeed).sub(this.velocity));
-            }
-
-            // Cohesion (same-group)
-            let cohesionForce = new Vector3();
-            if (cohCount > 0) {
-                const center = cohPos.divideScalar(cohCount);
-                cohesionForce = this.seek(center, config);
+            if (neighborSums.sepOther > 0) {
+                _force.addScaledVector(this.separationForce(config, _desired), config.interGroupSeparationWeight);
             }
-
-            const boundary = this.boundaryForce(config).multiplyScalar(config.boundaryForce);
-
-            this.applyForce(separationForce.multiplyScalar(config.separationWeight), config);
-            this.applyForce(alignmentForce.multiplyScalar(config.alignmentWeight), config);
-            this.applyForce(cohesionForce.multiplyScalar(config.cohesionWeight), config);
-            this.applyForce(boundary, config);
+            this.addWeighted(_force, config.separationWeight, config);
         } else {
-            // Default behavior
-            const separation = this.separate(config).multiplyScalar(config.separationWeight);
-            const alignment = this.align(config).multiplyScalar(config.alignmentWeight);
-            const cohesion = this.cohere(config).multiplyScalar(config.cohesionWeight);
-            const boundary = this.boundaryForce(config).multiplyScalar(config.boundaryForce);
-
-            this.applyForce(separation, config);
-            this.applyForce(alignment, config);
-            this.applyForce(cohesion, config);
-            this.applyForce(boundary, config);
+            this.addWeighted(this.separationForce(config, _force), config.separationWeight, config);
         }
 
+        this.addWeighted(this.alignmentForce(config, _force), config.alignmentWeight, config);
+        this.addWeighted(this.cohesionForce(config, _force), config.cohesionWeight, config);
+        this.addWeighted(this.boundaryForce(config, _force), config.boundaryForce, config);
+
         // Optional behaviors
         if (config.wanderWeight > 0) {
-            const wander = this.wander(config).multiplyScalar(config.wanderWeight);
-            this.applyForce(wander, config);
+            this.addWeighted(this.wander(config, _force), config.wanderWeight, config);
         }
 
         if (config.targetPosition && config.targetWeight > 0) {
-            const seek = this.seek(config.targetPosition, config).multiplyScalar(config.targetWeight);
-            this.applyForce(seek, config);
+            this.addWeighted(this.seek(config.targetPosition, config, _force), config.targetWeight, config);
+        }
+
+        if (this.leader && config.leaderFollowWeight > 0) {
+            this.addWeighted(this.followLeader(this.leader, config, _force), config.leaderFollowWeight, config);
+        }
+
+        if (forceFields.length > 0) {
+            this.addWeighted(this.forceFieldForce(forceFields, config, _force), 1, config);
         }
     }
 
     /**
-     * Separation behavior - avoid crowding
+     * Single pass over the neighbor list accumulating separation, alignment and
+     * cohesion sums into the shared scratch state (`neighborSums`).
+     * In group-aware mode alignment and cohesion only count same-group neighbors,
+     * and other groups are separated from within interGroupSeparationDistance.
+     * With a perception model, each neighbor's position and velocity come from
+     * the last packet received from it (skipped if none arrived recently).
      */
-    private separate(config: BoidConfig): Vector3 {
-        const steer = new Vector3();
-        let count = 0;
-
-        for (const other of this.neighbors) {
-            const distance = this.position.distanceTo(other.position);
-
-            if (distance > 0 && distance < config.separationDistance) {
-                const diff = new Vector3().subVectors(this.position, other.position);
-                diff.normalize();
-                diff.divideScalar(distance); // Closer distance means stronger force
-                steer.add(diff);
-                count++;
-            }
+    private gatherNeighbors(allBoids: Boid[], config: BoidConfig, groupAware: boolean, perception: PerceptionModel | null): void {
+        const indices = this.buffers.neighborIndices;
+        const base = this.index * this.buffers.neighborStride;
+        const count = this.buffers.neighborCounts[this.index];
+        const px = _self.x;
+        const py = _self.y;
+        const pz = _self.z;
+
+        // Neighbor state source: true state (pos/vel at slot * 3) or received packets
+        let pos = this.buffers.positions;
+        let vel = this.buffers.velocities;
+        let velOffset = 0;
+        if (perception) {
+            pos = vel = perception.history;
+            velOffset = 3;
         }
 
-        if (count > 0) {
-            steer.divideScalar(count);
-            steer.normalize().multiplyScalar(config.maxSpeed);
-            steer.sub(this.velocity);
+        _sep.set(0, 0, 0);
+        _align.set(0, 0, 0);
+        _coh.set(0, 0, 0);
+        neighborSums.sepSame = 0;
+        neighborSums.sepOther = 0;
+        neighborSums.align = 0;
+        neighborSums.coh = 0;
+
+        for (let k = 0; k < count; k++) {
+            const slot = indices[base + k];
+            let j = slot * 3;
+            if (perception) {
+                j = perception.lookup(this.index, slot, config.packetDropRate);
+                if (j < 0) continue;
+            }
+            const dx = px - pos[j];
+            const dy = py - pos[j + 1];
+            const dz = pz - pos[j + 2];
+            const distSq = dx * dx + dy * dy + dz * dz;
+            if (distSq <= 0) continue;
+            const distance = Math.sqrt(distSq);
+
+            const sameGroup = !groupAware ||
+                (allBoids[slot].groupData === this.groupData && allBoids[slot].groupId === this.groupId);
+
+            if (sameGroup) {
+                if (distance < config.separationDistance) {
+                    // Closer distance means stronger force: normalized diff / distance
+                    _sep.x += dx / distSq;
+                    _sep.y += dy / distSq;
+                    _sep.z += dz / distSq;
+                    neighborSums.sepSame++;
+                }
+
+                if (distance < config.alignmentDistance) {
+                    _align.x += vel[j + velOffset];
+                    _align.y += vel[j + velOffset + 1];
+                    _align.z += vel[j + velOffset + 2];
+                    neighborSums.align++;
+                }
+
+                if (distance < config.cohesionDistance) {
+                    _coh.x += pos[j];
+                    _coh.y += pos[j + 1];
+                    _coh.z += pos[j + 2];
+                    neighborSums.coh++;
+                }
+            } else if (distance < config.interGroupSeparationDistance) {
+                // Other-group separation if within interGroupSeparationDistance
+                _sep.x += dx / distSq;
+                _sep.y += dy / distSq;
+                _sep.z += dz / distSq;
+                neighborSums.sepOther++;
+            }
         }
+    }
 
-        return steer;
+    /**
+     * Separation behavior - avoid crowding
+     */
+    private separationForce(config: BoidConfig, out: Vector3): Vector3 {
+        if (neighborSums.sepSame + neighborSums.sepOther === 0) return out.set(0, 0, 0);
+        return this.steerTo(out.copy(_sep).normalize().multiplyScalar(config.maxSpeed), config, out);
     }
 
     /**
      * Alignment behavior - match neighbor directions
      */
-    private align(config: BoidConfig): Vector3 {
-        const avgVelocity = new Vector3();
-        let count = 0;
+    private alignmentForce(config: BoidConfig, out: Vector3): Vector3 {
+        if (neighborSums.align === 0) return out.set(0, 0, 0);
+        return this.steerTo(out.copy(_align).normalize().multiplyScalar(config.maxSpeed), config, out);
+    }
+
+    /**
+     * Cohesion behavior - move toward neighbor center
+     */
+    private cohesionForce(config: BoidConfig, out: Vector3): Vector3 {
+        if (neighborSums.coh === 0) return out.set(0, 0, 0);
+        _target.copy(_coh).divideScalar(neighborSums.coh);
+        return this.seek(_target, config, out);
+    }
 
-        for (const other of this.neighbors) {
-            const distance = this.position.distanceTo(other.position);
+    /**
+     * Seek target - basic steering behavior, from where the Boid believes it is
+     */
+    private seek(target: Vector3, config: BoidConfig, out: Vector3): Vector3 {
+        out.subVectors(target, _self).normalize().multiplyScalar(config.maxSpeed);
+        return this.steerTo(out, config, out);
+    }
 
-            if (distance > 0 && distance < config.alignmentDistance) {
-                avgVelocity.add(other.velocity);
-                count++;
-            }
+    /**
+     * Steering acceleration (m/s²) that closes the gap between the current
+     * velocity and `desired` (m/s) over `steeringResponseTime`
+     */
+    private steerTo(desired: Vector3, config: BoidConfig, out: Vector3): Vector3 {
+        return out.subVectors(desired, this.velocity).divideScalar(config.steeringResponseTime);
+    }
+
+    /**
+     * Arrive - steer towards the target at a speed that falls off linearly
+     * within `arrivalRadius` and never exceeds what the drone can still brake
+     * from. The velocity gain is set from `arrivalDamping`, so at 1 the drone
+     * settles on the target without overshoot. Within `formationTolerance` it
+     * holds position until it drifts twice as far.
+     */
+    private arrive(target: Vector3, config: BoidConfig, out: Vector3): Vector3 {
+        out.subVectors(target, _self);
+        const distance = out.length();
+        const tolerance = config.formationTolerance;
+        this.holdingPosition = distance <= (this.holdingPosition ? tolerance * 2 : tolerance);
+
+        // Desired speed per meter still to go (1/s), and the deceleration available for braking
+        const gain = config.maxSpeed / Math.max(1e-3, config.arrivalRadius);
+        const braking = config.useDroneDynamics
+            ? Math.min(config.maxHorizontalAcceleration, config.maxVerticalAcceleration)
+            : Math.min(config.maxForce, config.maxAcceleration);
+        const speed = Math.min(config.maxSpeed, distance * gain, Math.sqrt(2 * braking * distance));
+        if (distance > 1e-6) out.multiplyScalar(speed / distance);
+
+        // Closing in as x'' + c x' + c gain x = 0, whose damping ratio is sqrt(c / (4 gain))
+        const c = 4 * gain * config.arrivalDamping * config.arrivalDamping;
+        return out.sub(this.velocity).multiplyScalar(c);
+    }
+
+    /**
+     * Attractors, repellers and vortices in range: steer towards each field's
+     * heading at full speed, weighted by its strength and falloff
+     */
+    private forceFieldForce(fields: readonly ForceField[], config: BoidConfig, out: Vector3): Vector3 {
+        out.set(0, 0, 0);
+        for (const field of fields) {
+            const falloff = field.heading(_self, _desired);
+            if (falloff <= 0) continue;
+            this.steerTo(_desired.multiplyScalar(config.maxSpeed), config, _desired);
+            out.addScaledVector(_desired, field.strength * falloff);
         }
+        return out;
+    }
 
-        if (count > 0) {
-            avgVelocity.divideScalar(count);
-            avgVelocity.normalize().multiplyScalar(config.maxSpeed);
-            return avgVelocity.sub(this.velocity);
+    /**
+     * Return-to-home: fly level to above the landing spot (at least 10 m up),
+     * then descend onto it, slowing down near the target. A depleted drone
+     * descends where it is.
+     */
+    private returnHome(config: BoidConfig, out: Vector3): Vector3 {
+        if (this.energyState === 'depleted') {
+            _target.set(this.position.x, config.launchPad.y, this.position.z);
+        } else {
+            BatteryModel.landingSpot(this.id, config, _target);
+            const dx = _target.x - this.position.x;
+            const dz = _target.z - this.position.z;
+            if (dx * dx + dz * dz > 1) {
+                _target.y = Math.max(this.position.y, config.launchPad.y + 10);
+            }
         }
 
-        return avgVelocity;
+        _desired.subVectors(_target, this.position);
+        const distance = _desired.length();
+        if (distance > 0) {
+            _desired.multiplyScalar(config.maxSpeed * Math.min(1, distance / 20) / distance);
+        }
+        return this.steerTo(_desired, config, out);
     }
 
     /**
-     * Cohesion behavior - move toward neighbor center
+     * Wander behavior - random exploration
      */
-    private cohere(config: BoidConfig): Vector3 {
-        const centerOfMass = new Vector3();
-        let count = 0;
+    private wander(config: BoidConfig, out: Vector3): Vector3 {
+        // Update wander angle
+        this.wanderAngle += (config.rng.next() - 0.5) * config.wanderJitter;
 
-        for (const other of this.neighbors) {
-            const distance = this.position.distanceTo(other.position);
+        // Project a circle ahead and pick a point on it (displacement on XY plane)
+        _target.copy(this.velocity).normalize().multiplyScalar(config.wanderDistance).add(this.position);
+        _target.x += Math.cos(this.wanderAngle) * config.wanderRadius;
+        _target.y += Math.sin(this.wanderAngle) * config.wanderRadius;
 
-            if (distance > 0 && distance < config.cohesionDistance) {
-                centerOfMass.add(other.position);
-                count++;
-            }
+        return this.seek(_target, config, out);
+    }
+
+    /**
+     * Leader path - wander, seek the target point or loop through waypoints
+     */
+    private leaderPath(config: BoidConfig, out: Vector3): Vector3 {
+        if (config.leaderMode === 'target' && config.targetPosition) {
+            return this.seek(config.targetPosition, config, out);
         }
 
-        if (count > 0) {
-            centerOfMass.divideScalar(count);
-            return this.seek(centerOfMass, config);
+        if (config.leaderMode === 'waypoints' && config.leaderWaypoints.length > 0) {
+            const waypoints = config.leaderWaypoints;
+            this.waypointIndex %= waypoints.length;
+            if (this.position.distanceTo(waypoints[this.waypointIndex]) < config.leaderWaypointRadius) {
+                this.waypointIndex = (this.waypointIndex + 1) % waypoints.length;
+            }
+            return this.seek(waypoints[this.waypointIndex], config, out);
         }
 
-        return centerOfMass;
+        return this.wander(config, out);
     }
 
     /**
-     * Seek target - basic steering behavior
+     * Leader following - arrive at an offset slot behind the leader.
+     * Slots are laid out in rows behind the leader's heading, picked from the Boid id
+     * so each follower keeps the same slot from step to step.
      */
-    private seek(target: Vector3, config: BoidConfig): Vector3 {
-        const desired = new Vector3().subVectors(target, this.position);
-        desired.normalize().multiplyScalar(config.maxSpeed);
-        return desired.sub(this.velocity);
+    private followLeader(leader: Boid, config: BoidConfig, out: Vector3): Vector3 {
+        _forward.copy(leader.velocity);
+        if (_forward.lengthSq() < 1e-6) _forward.set(1, 0, 0);
+        _forward.normalize();
+
+        _side.crossVectors(_forward, WORLD_UP);
+        if (_side.lengthSq() < 1e-6) _side.set(1, 0, 0);
+        _side.normalize();
+        _up.crossVectors(_side, _forward);
+
+        const spacing = config.leaderSlotSpacing;
+        const lateral = ((this.id % 5) - 2) * spacing;
+        const vertical = ((Math.floor(this.id / 5) % 3) - 1) * spacing;
+        const row = Math.floor(this.id / 15) % 4;
+
+        _target.copy(leader.position)
+            .addScaledVector(_forward, -(config.leaderFollowDistance + row * spacing))
+            .addScaledVector(_side, lateral)
+            .addScaledVector(_up, vertical);
+
+        // Arrive: full speed far away, match the leader's velocity near the slot
+        _desired.subVectors(_target, this.position);
+        const distance = _desired.length();
+        const slowingRadius = config.leaderFollowDistance * 2;
+        const ramp = Math.min(1, distance / slowingRadius);
+        if (distance > 0) {
+            _desired.divideScalar(distance).multiplyScalar(config.maxSpeed * ramp);
+        }
+        _desired.addScaledVector(leader.velocity, 1 - ramp);
+
+        return this.steerTo(_desired, config, out);
     }
 
     /**
-     * Wander behavior - random exploration
+     * Obstacle avoidance - look-ahead raycasts along the flight direction.
+     * Casts a center feeler plus four shorter side feelers and steers along the
+     * surface of the closest hit, harder the closer it is.
      */
-    private wander(config: BoidConfig): Vector3 {
-        // Project a circle ahead and pick a random point on it
-        const circleCenter = this.velocity.clone().normalize().multiplyScalar(config.wanderDistance);
+    private avoidObstacles(obstacles: readonly Obstacle[], config: BoidConfig, out: Vector3): Vector3 {
+        out.set(0, 0, 0);
+        const speed = this.velocity.length();
+        if (speed < 1e-6) return out;
+
+        const lookAhead = config.avoidanceDistance;
+        _forward.copy(this.velocity).divideScalar(speed);
+        _target.copy(this.position);
+
+        // Build a frame around the flight direction for the side feelers
+        _side.crossVectors(_forward, WORLD_UP);
+        if (_side.lengthSq() < 1e-6) _side.set(1, 0, 0);
+        _side.normalize();
+        _up.crossVectors(_side, _forward).normalize();
+
+        let closest = Infinity;
+        for (let f = 0; f < 5; f++) {
+            _feeler.copy(_forward);
+            if (f === 1) _feeler.addScaledVector(_side, 0.5);
+            if (f === 2) _feeler.addScaledVector(_side, -0.5);
+            if (f === 3) _feeler.addScaledVector(_up, 0.5);
+            if (f === 4) _feeler.addScaledVector(_up, -0.5);
+            _feeler.normalize();
+            const range = f === 0 ? lookAhead : lookAhead * 0.6;
+
+            for (const obstacle of obstacles) {
+                if (!obstacle.isNear(_target, range)) continue;
+                const t = obstacle.raycast(_target, _feeler, range, _hitNormal);
+                if (t >= 0 && t / range < closest) {
+                    closest = t / range;
+                    _closestNormal.copy(_hitNormal);
+                }
+            }
+        }
 
-        // Update wander angle
-        this.wanderAngle += (Math.random() - 0.5) * config.wanderJitter;
+        if (closest === Infinity) return out;
 
-        // Create displacement on XY plane
-        const displacement = new Vector3(
-            Math.cos(this.wanderAngle) * config.wanderRadius,
-            Math.sin(this.wanderAngle) * config.wanderRadius,
-            0
-        );
+        // Slide along the surface: drop the velocity component into the obstacle,
+        // then push outward in proportion to how close the hit is
+        const urgency = 1 - closest;
+        _desired.copy(_forward)
+            .addScaledVector(_closestNormal, -Math.min(0, _forward.dot(_closestNormal)))
+            .addScaledVector(_closestNormal, urgency)
+            .normalize()
+            .multiplyScalar(config.maxSpeed);
 
-        const target = this.position.clone().add(circleCenter).add(displacement);
-        return this.seek(target, config);
+        return this.steerTo(_desired, config, out).multiplyScalar(0.5 + urgency);
+    }
+
+    /**
+     * Geofence repulsion - turn back from within `geofenceMargin` of a no-fly
+     * zone or of the edge of the permitted airspace (the deepest inclusion zone),
+     * harder the closer, and harder still once across.
+     */
+    private geofenceForce(config: BoidConfig, out: Vector3): Vector3 {
+        out.set(0, 0, 0);
+        const margin = config.geofenceMargin;
+        let inclusionDepth = -Infinity;
+
+        for (const zone of config.geofences) {
+            const depth = zoneDepth(zone, _self.x, _self.y, _self.z, _hitNormal);
+            if (zone.kind === 'exclusion') {
+                if (depth > -margin) out.addScaledVector(_hitNormal, Math.min(2, (margin + depth) / margin));
+            } else if (depth > inclusionDepth) {
+                inclusionDepth = depth;
+                _closestNormal.copy(_hitNormal);
+            }
+        }
+        if (inclusionDepth > -Infinity && inclusionDepth < margin) {
+            out.addScaledVector(_closestNormal, -Math.min(2, (margin - inclusionDepth) / margin));
+        }
+
+        const urgency = out.length();
+        if (urgency < 1e-6) return out;
+        _desired.copy(out).divideScalar(urgency).multiplyScalar(config.maxSpeed);
+        return this.steerTo(_desired, config, out).multiplyScalar(Math.min(2, urgency));
     }
 
     /**
      * Boundary repulsion force
      */
-    private boundaryForce(config: BoidConfig): Vector3 {
-        const force = new Vector3();
+    private boundaryForce(config: BoidConfig, out: Vector3): Vector3 {
+        out.set(0, 0, 0);
         const { min, max } = config.bounds;
         const margin = config.boundaryMargin;
+        const pos = this.buffers.positions;
+        const i = this.index * 3;
 
         // X-axis boundary
-        if (this.position.x < min.x + margin) {
-            force.x = config.maxSpeed;
-        } else if (this.position.x > max.x - margin) {
-            force.x = -config.maxSpeed;
+        if (pos[i] < min.x + margin) {
+            out.x = config.maxSpeed;
+        } else if (pos[i] > max.x - margin) {
+            out.x = -config.maxSpeed;
         }
 
         // Y-axis boundary
-        if (this.position.y < min.y + margin) {
-            force.y = config.maxSpeed;
-        } else if (this.position.y > max.y - margin) {
-            force.y = -config.maxSpeed;
+        if (pos[i + 1] < min.y + margin) {
+            out.y = config.maxSpeed;
+        } else if (pos[i + 1] > max.y - margin) {
+            out.y = -config.maxSpeed;
         }
 
         // Z-axis boundary
-        if (this.position.z < min.z + margin) {
-            force.z = config.maxSpeed;
-        } else if (this.position.z > max.z - margin) {
-            force.z = -config.maxSpeed;
+        if (pos[i + 2] < min.z + margin) {
+            out.z = config.maxSpeed;
+        } else if (pos[i + 2] > max.z - margin) {
+            out.z = -config.maxSpeed;
         }
 
-        return force;
+        // A desired velocity back inside, reached over the steering response time
+        return out.divideScalar(config.steeringResponseTime);
     }
 
     /**
@@ -334,40 +754,39 @@ export class Boid {
      */
     private handleBoundaries(config: BoidConfig): void {
         const { min, max } = config.bounds;
+        const i = this.index * 3;
+
+        this.handleBoundaryAxis(config, i, min.x, max.x);
+        this.handleBoundaryAxis(config, i + 1, min.y, max.y);
+        this.handleBoundaryAxis(config, i + 2, min.z, max.z);
+    }
+
+    /**
+     * Boundary handling for one axis (`k` is the component's index in the buffers)
+     */
+    private handleBoundaryAxis(config: BoidConfig, k: number, lo: number, hi: number): void {
+        const pos = this.buffers.positions;
+        const vel = this.buffers.velocities;
 
         switch (config.boundaryType) {
             case 'wrap':
                 // Wrap-around boundary
-                if (this.position.x < min.x) this.position.x = max.x;
-                if (this.position.x > max.x) this.position.x = min.x;
-                if (this.position.y < min.y) this.position.y = max.y;
-                if (this.position.y > max.y) this.position.y = min.y;
-                if (this.position.z < min.z) this.position.z = max.z;
-                if (this.position.z > max.z) this.position.z = min.z;
+                if (pos[k] < lo) pos[k] = hi;
+                else if (pos[k] > hi) pos[k] = lo;
                 break;
 
             case 'bounce':
                 // Bounce boundary
-                if (this.position.x < min.x || this.position.x > max.x) {
-                    this.velocity.x *= -1;
-                    this.position.x = Math.max(min.x, Math.min(max.x, this.position.x));
-                }
-                if (this.position.y < min.y || this.position.y > max.y) {
-                    this.velocity.y *= -1;
-                    this.position.y = Math.max(min.y, Math.min(max.y, this.position.y));
-                }
-                if (this.position.z < min.z || this.position.z > max.z) {
-                    this.velocity.z *= -1;
-                    this.position.z = Math.max(min.z, Math.min(max.z, this.position.z));
+                if (pos[k] < lo || pos[k] > hi) {
+                    vel[k] *= -1;
+                    pos[k] = Math.max(lo, Math.min(hi, pos[k]));
                 }
                 break;
 
             case 'soft':
                 // Soft boundary (handled by boundaryForce)
                 // Only apply hard limits to prevent out-of-bounds
-                this.position.x = Math.max(min.x, Math.min(max.x, this.position.x));
-                this.position.y = Math.max(min.y, Math.min(max.y, this.position.y));
-                this.position.z = Math.max(min.z, Math.min(max.z, this.position.z));
+                pos[k] = Math.max(lo, Math.min(hi, pos[k]));
                 break;
         }
     }
@@ -377,11 +796,30 @@ export class Boid {
      */
     isInVision(other: Boid, config: BoidConfig): boolean {
         if (!config.useVisionCone) return true;
+        return this.canSee(other.index, config);
+    }
 
-        const toOther = new Vector3().subVectors(other.position, this.position);
-        const angle = this.velocity.angleTo(toOther) * (180 / Math.PI);
+    /**
+     * Field-of-view check against another slot, reading the buffers directly
+     */
+    canSee(slot: number, config: BoidConfig): boolean {
+        if (!config.useVisionCone) return true;
 
-        return angle < config.visionAngle / 2;
+        const pos = this.buffers.positions;
+        const vel = this.buffers.velocities;
+        const i = this.index * 3;
+        const j = slot * 3;
+        const tx = pos[j] - pos[i];
+        const ty = pos[j + 1] - pos[i + 1];
+        const tz = pos[j + 2] - pos[i + 2];
+        const vx = vel[i];
+        const vy = vel[i + 1];
+        const vz = vel[i + 2];
+
+        const denominator = Math.sqrt((tx * tx + ty * ty + tz * tz) * (vx * vx + vy * vy + vz * vz));
+        if (denominator === 0) return config.visionAngle / 2 > 90; // matches Vector3.angleTo (90°)
+
+        const cos = Math.max(-1, Math.min(1, (tx * vx + ty * vy + tz * vz) / denominator));
+        return Math.acos(cos) * (180 / Math.PI) < config.visionAngle / 2;
     }
 }
-
@@ -0,0 +1,134 @@
+import { Vector3 } from 'three';
+
+/**
+ * Vector3 whose components live in a shared Float32Array.
+ * Lets `boid.position` keep the familiar three.js API while the simulation
+ * core works directly on flat arrays.
+ */
+export class BufferVector3 extends Vector3 {
+    declare array: Float32Array;
+    declare offset: number;
+
+    constructor(array: Float32Array, offset: number) {
+        super();
+        this.array = array;
+        this.offset = offset;
+    }
+
+    /**
+     * Point the view at a (possibly reallocated) array slot
+     */
+    bind(array: Float32Array, offset: number): void {
+        this.array = array;
+        this.offset = offset;
+    }
+
+    /**
+     * Detached copy - a plain Vector3, not another view into the buffer
+     */
+    clone(): this {
+        return new Vector3(this.x, this.y, this.z) as this;
+    }
+}
+
+// Components are accessors onto the backing array. Defined on the prototype at runtime
+// because Vector3 declares x/y/z as plain fields. The base constructor assigns x/y/z
+// before the array is bound, so the setters ignore writes until then.
+Object.defineProperties(BufferVector3.prototype, {
+    x: {
+        get(this: BufferVector3) { return this.array[this.offset]; },
+        set(this: BufferVector3, v: number) { if (this.array) this.array[this.offset] = v; }
+    },
+    y: {
+        get(this: BufferVector3) { return this.array[this.offset + 1]; },
+        set(this: BufferVector3, v: number) { if (this.array) this.array[this.offset + 1] = v; }
+    },
+    z: {
+        get(this: BufferVector3) { return this.array[this.offset + 2]; },
+        set(this: BufferVector3, v: number) { if (this.array) this.array[this.offset + 2] = v; }
+    }
+});
+
+/**
+ * Structure-of-arrays storage for the swarm's hot per-step state.
+ * Slot `i` holds Boid `boids[i]`; vectors are packed as [x, y, z] triples.
+ */
+export class BoidBuffers {
+    capacity = 0;
+
+    positions: Float32Array = new Float32Array(0);
+    velocities: Float32Array = new Float32Array(0);
+    accelerations: Float32Array = new Float32Array(0);
+    previousPositions: Float32Array = new Float32Array(0);
+
+    // Drone dynamics state (see DroneDynamics)
+    thrusts: Float32Array = new Float32Array(0);     // Specific rotor thrust [x, y, z] (m/s²)
+    headings: Float32Array = new Float32Array(0);    // Yaw (radians, 0 = +Z)
+
+    // Remaining battery energy (Wh, see BatteryModel)
+    batteryEnergy: Float32Array = new Float32Array(0);
+
+    // Wind velocity at each drone for the current step [x, y, z] (m/s, see WindField)
+    winds: Float32Array = new Float32Array(0);
+
+    // Neighbor lists: up to `neighborStride` slot indices per Boid
+    neighborStride = 0;
+    neighborIndices = new Int32Array(0);
+    neighborCounts = new Int32Array(0);
+
+    /**
+     * Grow storage to hold at least `count` Boids.
+     * Returns true if the arrays were reallocated (views must be rebound).
+     */
+    ensureCapacity(count: number): boolean {
+        if (count <= this.capacity) return false;
+
+        let capacity = Math.max(64, this.capacity);
+        while (capacity < count) capacity *= 2;
+
+        this.positions = BoidBuffers.grow(this.positions, capacity * 3);
+        this.velocities = BoidBuffers.grow(this.velocities, capacity * 3);
+        this.accelerations = BoidBuffers.grow(this.accelerations, capacity * 3);
+        this.previousPositions = BoidBuffers.grow(this.previousPositions, capacity * 3);
+        this.thrusts = BoidBuffers.grow(this.thrusts, capacity * 3);
+        this.headings = BoidBuffers.grow(this.headings, capacity);
+        this.batteryEnergy = BoidBuffers.grow(this.batteryEnergy, capacity);
+        this.winds = BoidBuffers.grow(this.winds, capacity * 3);
+        this.neighborCounts = new Int32Array(capacity);
+        this.neighborIndices = new Int32Array(capacity * this.neighborStride);
+        this.capacity = capacity;
+        return true;
+    }
+
+    /**
+     * Resize neighbor lists when the neighbor limit changes
+     */
+    ensureNeighborStride(stride: number): void {
+        if (stride === this.neighborStride) return;
+        this.neighborStride = stride;
+        this.neighborIndices = new Int32Array(this.capacity * stride);
+        this.neighborCounts.fill(0);
+    }
+
+    /**
+     * Copy all per-Boid state from one slot to another
+     */
+    moveSlot(from: number, to: number): void {
+        const f = from * 3;
+        const t = to * 3;
+        for (const array of [this.positions, this.velocities, this.accelerations, this.previousPositions, this.thrusts, this.winds]) {
+            array[t] = array[f];
+            array[t + 1] = array[f + 1];
+            array[t + 2] = array[f + 2];
+        }
+        this.headings[to] = this.headings[from];
+        this.batteryEnergy[to] = this.batteryEnergy[from];
+        this.neighborCounts[to] = 0;
+    }
+
+    private static grow(array: Float32Array, length: number): Float32Array {
+        const next = new Float32Array(length);
+        next.set(array);
+        return next;
+    }
+}
@@ -1,4 +1,33 @@
 import { Vector3 } from 'three';
+import { SeededRandom } from './SeededRandom';
+import { SpatialIndexType } from './SpatialIndex';
+import { ScheduledFault } from './FaultInjector';
+import { GeofenceZone } from './Geofence';
+
+/**
+ * Behavior of one group in a heterogeneous swarm (see BoidConfig.groupProfiles).
+ * Its fields replace the global values of the same name for the group's drones.
+ */
+export interface GroupProfile {
+    name: string;
+    share: number;                  // Relative share of the swarm
+    color: number;                  // Drone color (hex)
+    separationWeight: number;
+    alignmentWeight: number;
+    cohesionWeight: number;
+    separationDistance: number;
+    alignmentDistance: number;
+    cohesionDistance: number;
+    maxSpeed: number;
+    maxForce: number;
+}
+
+// GroupProfile fields that override BoidConfig fields
+const PROFILE_OVERRIDES = [
+    'separationWeight', 'alignmentWeight', 'cohesionWeight',
+    'separationDistance', 'alignmentDistance', 'cohesionDistance',
+    'maxSpeed', 'maxForce'
+] as const;
 
 /**
  * Complete Boid algorithm parameter configuration
@@ -15,9 +44,86 @@ export class BoidConfig {
     cohesionDistance: number = 50;       // Cohesion perception distance
 
     // ========== Motion Constraints ==========
-    maxSpeed: number = 4.0;              // Maximum speed
-    maxForce: number = 0.1;              // Maximum steering force
-    maxAcceleration: number = 0.5;       // Maximum acceleration
+    maxSpeed: number = 15;               // Maximum speed (m/s)
+    maxForce: number = 20;               // Maximum steering force (m/s²)
+    maxAcceleration: number = 30;        // Maximum acceleration (m/s²), without drone dynamics
+    steeringResponseTime: number = 0.5;  // Time over which steering closes a velocity error (s)
+
+    // ========== Drone Dynamics ==========
+    useDroneDynamics: boolean = false;   // Fly drones with the quadrotor model (DroneDynamics)
+    droneMass: number = 1.2;             // Mass (kg)
+    thrustToWeight: number = 2.0;        // Maximum thrust / weight
+    dragCoefficient: number = 0.02;      // Quadratic drag coefficient (kg/m)
+    thrustResponseTime: number = 0.1;    // Attitude / thrust response time constant (s)
+    maxHorizontalSpeed: number = 15;     // Horizontal speed limit (m/s)
+    maxClimbRate: number = 5;            // Vertical speed limit going up (m/s)
+    maxDescentRate: number = 3;          // Vertical speed limit going down (m/s)
+    maxHorizontalAcceleration: number = 8;  // Commanded horizontal acceleration limit (m/s²)
+    maxVerticalAcceleration: number = 4;    // Commanded vertical acceleration limit (m/s²)
+    maxYawRate: number = 90;             // Yaw rate limit (deg/s)
+
+    // ========== Battery & Energy ==========
+    useBattery: boolean = false;         // Drain batteries and return home when low (BatteryModel)
+    batteryCapacity: number = 90;        // Usable battery energy (Wh)
+    hoverPower: number = 200;            // Power draw while hovering (W)
+    speedPowerCoefficient: number = 0.4; // Extra power per horizontal speed² (W per (m/s)²)
+    propulsionEfficiency: number = 0.6;  // Fraction of electrical power turned into climb
+    returnThreshold: number = 0.2;       // Charge fraction that triggers return-to-home
+    launchPad: Vector3 = new Vector3(0, 0, 0);  // Center of the launch / landing pad
+    landingSpacing: number = 2;          // Distance between landing spots on the pad (m)
+    colorByBattery: boolean = false;     // Tint drones from green (full) to red (empty)
+
+    // ========== Wind ==========
+    useWind: boolean = false;            // Apply the wind field (WindField) to every drone
+    windSpeed: number = 6;               // Mean wind speed at the reference height (m/s)
+    windDirection: number = 90;          // Direction the wind blows toward (degrees, 0 = +Z, 90 = +X)
+    windReferenceHeight: number = 10;    // Height at which windSpeed applies (m)
+    windShearExponent: number = 0.14;    // Power-law shear exponent (0 = same speed at all heights)
+    gustStrength: number = 0.5;          // Peak gust as a fraction of the mean speed
+    gustInterval: number = 15;           // Time between gusts (s)
+    gustDuration: number = 4;            // Length of one gust (s)
+    turbulenceIntensity: number = 0.15;  // Turbulence standard deviation / mean speed
+    turbulenceScale: number = 80;        // Size of the largest eddies (m)
+    buildingChannelling: number = 0.6;   // Speed-up beside / slow-down behind buildings
+    channellingRange: number = 40;       // Distance from a building within which it shapes the flow (m)
+    showWindArrows: boolean = false;     // Draw the wind field as arrows
+
+    // ========== Perception ==========
+    usePerception: boolean = false;      // See neighbors and own position through PerceptionModel
+    gpsNoise: number = 1.5;              // GPS position error, standard deviation per axis (m)
+    gpsCorrelationTime: number = 5;      // How slowly the GPS error drifts (s)
+    velocityNoise: number = 0.3;         // Broadcast velocity noise, standard deviation per axis (m/s)
+    packetDropRate: number = 0.05;       // Probability that a neighbor's packet is lost
+    perceptionLatency: number = 0.1;     // Age of neighbor state when it is used (s)
+
+    // ========== Safety ==========
+    collisionDetection: boolean = true;  // Check drone pairs for collisions each step (SafetyMonitor)
+    collisionRadius: number = 1.0;       // Pairs closer than this collide (m)
+    nearMissRadius: number = 3.0;        // Pairs closer than this are near misses (m)
+    highlightCollisions: boolean = true; // Draw colliding drones in red
+    safetyLogLimit: number = 1000;       // Newest safety events kept in the log
+
+    // ========== Geofence ==========
+    geofences: GeofenceZone[] = [];      // Inclusion / no-fly zones (Geofence); none = only the bounds apply
+    geofenceMargin: number = 20;         // Distance from a zone boundary at which drones start turning back (m)
+    geofenceWeight: number = 3;          // Geofence repulsion weight
+    showGeofences: boolean = true;       // Draw the zones and tint drones in breach orange
+
+    // ========== Analytics ==========
+    collectMetrics: boolean = true;      // Sample swarm order parameters (SwarmMetrics)
+    metricsInterval: number = 0.25;      // Time between samples (s)
+    metricsHistoryLength: number = 240;  // Samples kept for charts and CSV export
+    clusterDistance: number = 50;        // Drones closer than this belong to the same cluster (m)
+    showAnalytics: boolean = false;      // Show the analytics chart panel
+
+    // ========== Fault Injection ==========
+    faultFailsafeDelay: number = 5;      // Time a frozen / drifting drone misbehaves before descending (s)
+    faultSchedule: ScheduledFault[] = [];  // Faults replayed after every initialization (FaultInjector)
+
+    // ========== Time Stepping ==========
+    fixedTimeStep: number = 1 / 60;      // Simulation step length (seconds)
+    maxSubSteps: number = 5;             // Max simulation steps per rendered frame
+    interpolate: boolean = true;         // Interpolate rendered positions between steps
 
     // ========== Vision Parameters ==========
     visionAngle: number = 270;           // Vision angle (degrees)
@@ -38,12 +144,18 @@ export class BoidConfig {
         };
 
     // ========== Advanced Behaviors ==========
-    avoidanceWeight: number = 2.0;       // Obstacle avoidance weight (reserved)
-    avoidanceDistance: number = 100;     // Avoidance perception distance
+    avoidanceWeight: number = 2.0;       // Obstacle avoidance weight
+    avoidanceDistance: number = 100;     // Obstacle look-ahead distance
 
     targetWeight: number = 0.5;          // Target point attraction weight
     targetPosition: Vector3 | null = null;  // Target position
 
+    arrivalRadius: number = 40;          // Story drones slow down within this distance of their formation point (m)
+    arrivalDamping: number = 1;          // Damping ratio of the approach (1 = critical, no overshoot; above 1 = slower)
+    formationTolerance: number = 1;      // Within this distance a drone holds position and counts as in formation (m)
+    optimizeAssignment: boolean = true;  // At each scene change match drones to the nearest formation points (else drone i takes point i)
+    planTransitions: boolean = false;    // Fly scene changes on planned paths that keep nearMissRadius apart (TransitionPlanner)
+
     wanderWeight: number = 0.1;          // Random wander weight
     wanderRadius: number = 20;           // Wander radius
     wanderDistance: number = 50;         // Wander projection distance
@@ -53,18 +165,33 @@ export class BoidConfig {
     enableFlocking: boolean = true;      // Enable flocking behavior
     leaderFollowWeight: number = 0.0;    // Leader following weight
     leaderIds: Set<number> = new Set();  // Leader ID set
+    leaderMode: 'wander' | 'target' | 'waypoints' = 'wander';  // How leaders pick their path
+    leaderWaypoints: Vector3[] = [       // Loop flown by leaders in 'waypoints' mode
+        new Vector3(-300, 300, -300),
+        new Vector3(300, 350, -300),
+        new Vector3(300, 300, 300),
+        new Vector3(-300, 250, 300)
+    ];
+    leaderWaypointRadius: number = 40;   // Distance at which a waypoint counts as reached
+    leaderPerceptionDistance: number = 300;  // How far followers can see a leader
+    leaderFollowDistance: number = 40;   // Distance of follower slots behind the leader
+    leaderSlotSpacing: number = 15;      // Spacing between follower slots
     // Group-aware behavior: when enabled, alignment and cohesion applies only within same group,
     // while inter-group separation uses a configurable distance/weight.
     groupAwareMode: boolean = false;
     interGroupSeparationDistance: number = 50;
     interGroupSeparationWeight: number = 2.0;
+    // Per-group behavior; drones are split between the profiles by share (none = one uniform swarm)
+    groupProfiles: GroupProfile[] = [];
 
     // ========== Performance Optimization ==========
-    spatialHashCellSize: number = 50;    // Spatial hash grid cell size
+    spatialIndex: SpatialIndexType = 'hash';  // Neighbor search structure
+    spatialHashCellSize: number = 50;    // Spatial hash / grid cell size
     maxNeighbors: number = 50;           // Maximum neighbor detection count
 
     // ========== Rendering Related ==========
     droneSize: number = 1.0;             // Drone size
+    highlightLeaders: boolean = true;    // Draw leaders larger and in gold
     showVelocityVector: boolean = false; // Show velocity vectors
     showNeighborLines: boolean = false;  // Show neighbor lines
     // Global emissive color used by the boid material (hex number)
@@ -72,6 +199,11 @@ export class BoidConfig {
     // Global emissive intensity multiplier
     emissiveIntensity: number = 1.0;
 
+    // ========== Randomness ==========
+    seed: number = 12345;                // Seed for all simulation randomness
+    // Shared generator; reseeded from `seed` whenever the swarm is initialized
+    rng: SeededRandom = new SeededRandom(this.seed);
+
     // ========== Debug Mode ==========
     debugMode: boolean = false;
 
@@ -87,15 +219,55 @@ export class BoidConfig {
         };
         config.targetPosition = this.targetPosition?.clone() || null;
         config.leaderIds = new Set(this.leaderIds);
+        config.leaderWaypoints = this.leaderWaypoints.map(w => w.clone());
+        config.launchPad = this.launchPad.clone();
+        config.faultSchedule = this.faultSchedule.map(f => ({ ...f }));
+        config.groupProfiles = this.groupProfiles.map(p => ({ ...p }));
+        config.geofences = structuredClone(this.geofences);
+        config.rng = this.rng.clone();
         return config;
     }
 
+    /**
+     * New group profile starting from the current global values
+     */
+    createGroupProfile(name: string, color: number): GroupProfile {
+        return {
+            name,
+            share: 1,
+            color,
+            separationWeight: this.separationWeight,
+            alignmentWeight: this.alignmentWeight,
+            cohesionWeight: this.cohesionWeight,
+            separationDistance: this.separationDistance,
+            alignmentDistance: this.alignmentDistance,
+            cohesionDistance: this.cohesionDistance,
+            maxSpeed: this.maxSpeed,
+            maxForce: this.maxForce
+        };
+    }
+
+    /**
+     * View of this config with a group profile applied. Everything the profile
+     * does not override (the shared rng included) reads through to this config.
+     */
+    withProfile(profile: GroupProfile): BoidConfig {
+        const view = Object.create(this) as BoidConfig;
+        for (const key of PROFILE_OVERRIDES) {
+            view[key] = profile[key];
+        }
+        return view;
+    }
+
     /**
      * Restore configuration from JSON
      */
     static fromJSON(json: any): BoidConfig {
         const config = new BoidConfig();
-        Object.assign(config, json);
+        const { rng: _rng, launchPad, ...data } = json;
+        Object.assign(config, data);
+        if (Array.isArray(launchPad)) config.launchPad.fromArray(launchPad);
+        config.rng.reseed(config.seed);
         return config;
     }
 }
@@ -1,26 +1,125 @@
-import { Vector3 } from 'three';
+import { Box3, Object3D, Vector3 } from 'three';
 import { Boid } from './Boid';
 import { BoidConfig } from './BoidConfig';
+import { BoidBuffers } from './BoidBuffers';
+import { SpatialIndex, SpatialIndexType } from './SpatialIndex';
 import { SpatialHash } from './SpatialHash';
+import { UniformGrid } from './UniformGrid';
+import { LooseOctree } from './LooseOctree';
+import { BruteForceIndex } from './BruteForceIndex';
+import { DroneDynamics } from './DroneDynamics';
+import { BatteryModel } from './Battery';
+import { WindField } from './WindField';
+import { PerceptionModel } from './PerceptionModel';
+import { SafetyMonitor } from './SafetyMonitor';
+import { FaultInjector, FaultType, FormationReport } from './FaultInjector';
+import { ForceField, ForceFieldKind } from './ForceField';
+import { SwarmMetrics } from './SwarmMetrics';
+import { GeofenceMonitor } from './Geofence';
+import { BoxObstacle, CylinderObstacle, Obstacle, ObstacleSource, SphereObstacle } from './Obstacle';
+
+// Snapshot returned by BoidSystem.getStats()
+export type BoidSystemStats = ReturnType<BoidSystem['getStats']>;
+
+/**
+ * Change to the swarm's membership, passed to onSwarmChange listeners
+ */
+export type SwarmEvent =
+    | { type: 'initialized'; count: number }    // Swarm rebuilt with ids 0..count-1
+    | { type: 'added'; boid: Boid }
+    | { type: 'removed'; boid: Boid };          // Sent while the Boid's state is still readable
 
 /**
  * Boid swarm management system
+ *
+ * Hot per-step state (positions, velocities, accelerations, neighbor lists) lives in
+ * flat typed arrays (`buffers`); `boids[i]` is a view onto slot `i`.
  */
 export class BoidSystem {
     boids: Boid[] = [];
     config: BoidConfig;
-    private spatialHash: SpatialHash;
+    // Next id handed out by addBoid; ids are never reused within a swarm
+    private nextBoidId = 0;
+    private swarmListeners: ((event: SwarmEvent) => void)[] = [];
+    readonly buffers = new BoidBuffers();
+    private spatialIndex: SpatialIndex;
+    // Slot whose neighbors are being searched (read by inVisionCone)
+    private queryIndex = 0;
+
+    // Quadrotor model (used when config.useDroneDynamics is set)
+    readonly dynamics = new DroneDynamics();
+    // Battery drain and return-to-home (used when config.useBattery is set)
+    readonly battery = new BatteryModel();
+    // Wind, gusts and turbulence (used when config.useWind is set)
+    readonly wind = new WindField();
+    // Sensor noise, packet loss and latency (used when config.usePerception is set)
+    readonly perception = new PerceptionModel();
+    // Collision and near-miss detection (used when config.collisionDetection is set)
+    readonly safety = new SafetyMonitor();
+    // Geofence breach detection (zones in config.geofences)
+    readonly geofence = new GeofenceMonitor();
+    // Drone failures, injected now or on a schedule
+    readonly faults = new FaultInjector();
+    // Polarization, milling, spacing and cluster samples (used when config.collectMetrics is set)
+    readonly metrics = new SwarmMetrics();
+    // Current story scene, attached to safety and fault events ('' outside the story)
+    sceneLabel = '';
+    // Per-scene formation fill under failures, written by the StoryController
+    formationReport: FormationReport[] = [];
+
+    // Obstacle registry (buildings and user-placed shapes)
+    obstacles: Obstacle[] = [];
+    private nextObstacleId = 0;
+    // Config views with each group profile applied, refreshed every step
+    private groupConfigs: BoidConfig[] = [];
+    // Attractors, repellers and vortices placed by the user
+    forceFields: ForceField[] = [];
+    private nextForceFieldId = 0;
+
+    // Fixed-timestep state
+    private accumulator = 0;
+    // Fraction of a step left in the accumulator, used to interpolate rendering
+    interpolationAlpha = 0;
+    // Total simulated time (seconds)
+    simulationTime = 0;
 
     // Performance statistics
     stats = {
         updateTime: 0,
         neighborSearchTime: 0,
-        forceCalculationTime: 0
+        forceCalculationTime: 0,
+        obstaclePenetrations: 0,     // Boids currently inside an obstacle
+        penetrationEvents: 0,        // Total times a Boid has entered an obstacle
+        // Drones that hit a limit in the last step (see DroneDynamics)
+        saturatedAcceleration: 0,
+        saturatedThrust: 0,
+        saturatedSpeed: 0,
+        saturatedYaw: 0,
+        // Wind at the drones in the last step (m/s)
+        windSpeedAvg: 0,
+        windSpeedMax: 0,
+        // Perception in the last step (see PerceptionModel)
+        packetLossRate: 0,           // Fraction of neighbor packets lost on time
+        unknownNeighborRate: 0,      // Fraction of neighbors with no recent packet
+        neighborStateAge: 0,         // Mean age of the neighbor states used (s)
+        gpsErrorRms: 0               // RMS GPS error (m)
     };
 
     constructor(config: BoidConfig) {
         this.config = config;
-        this.spatialHash = new SpatialHash(config.spatialHashCellSize);
+        this.spatialIndex = BoidSystem.createSpatialIndex(config.spatialIndex, config.spatialHashCellSize);
+    }
+
+    /**
+     * Create the neighbor search structure selected by `config.spatialIndex`
+     */
+    static createSpatialIndex(type: SpatialIndexType, cellSize: number): SpatialIndex {
+        switch (type) {
+            case 'grid': return new UniformGrid(cellSize);
+            case 'octree': return new LooseOctree();
+            case 'bruteforce': return new BruteForceIndex();
+            default: return new SpatialHash(cellSize);
+        }
     }
 
     /**
@@ -28,89 +127,499 @@ export class BoidSystem {
      */
     initializeBoids(count: number): void {
         this.boids = [];
+        this.accumulator = 0;
+        this.interpolationAlpha = 0;
+        this.simulationTime = 0;
+        this.stats.penetrationEvents = 0;
+        this.safety.reset();
+        this.geofence.reset();
+        this.faults.reset(this.config);
+        this.metrics.reset();
+        this.formationReport = [];
+        // Same seed, same swarm: every initialization restarts the random sequence
+        this.config.rng.reseed(this.config.seed);
+        this.perception.reset(this.config.seed);
+        const rng = this.config.rng;
         const { min, max } = this.config.bounds;
 
+        this.buffers.ensureCapacity(count);
+
+        this.nextBoidId = count;
         for (let i = 0; i < count; i++) {
-            const position = new Vector3(
-                min.x + Math.random() * (max.x - min.x),
-                min.y + Math.random() * (max.y - min.y) * 0.5 + (max.y - min.y) * 0.25, // Concentrate in upper middle
-                min.z + Math.random() * (max.z - min.z)
+            const boid = new Boid(i, this.buffers, i);
+            boid.position.set(
+                min.x + rng.next() * (max.x - min.x),
+                min.y + rng.next() * (max.y - min.y) * 0.5 + (max.y - min.y) * 0.25, // Concentrate in upper middle
+                min.z + rng.next() * (max.z - min.z)
             );
+            boid.previousPosition.copy(boid.position);
+            this.randomVelocity(boid.velocity);
+            boid.acceleration.set(0, 0, 0);
+            DroneDynamics.resetState(this.buffers, i);
+            BatteryModel.charge(this.buffers, i, this.config);
+            this.perception.resetSlot(i, this.config);
+            this.boids.push(boid);
+        }
+        this.assignGroups();
+        this.emit({ type: 'initialized', count });
+    }
+
+    /**
+     * Call `listener` whenever drones are added, removed or the swarm is rebuilt
+     */
+    onSwarmChange(listener: (event: SwarmEvent) => void): void {
+        this.swarmListeners.push(listener);
+    }
+
+    private emit(event: SwarmEvent): void {
+        for (const listener of this.swarmListeners) listener(event);
+    }
+
+    /**
+     * Split the swarm between `config.groupProfiles` by share and color each
+     * drone after its group. Call after editing the profiles.
+     */
+    assignGroups(): void {
+        const profiles = this.config.groupProfiles;
+        for (const boid of this.boids) {
+            const group = this.groupFor(boid.id);
+            if (group >= 0) {
+                boid.color.setHex(profiles[group].color);
+            } else if (boid.groupId >= 0) {
+                boid.color.set(0xffffff);
+            }
+            boid.groupId = group;
+        }
+    }
 
-            const velocity = new Vector3(
-                Math.random() - 0.5,
-                Math.random() - 0.5,
-                Math.random() - 0.5
-            ).normalize().multiplyScalar(this.config.maxSpeed * 0.5);
+    /**
+     * Group profile index for drone `id` (-1 without profiles). Ids are spread
+     * along the golden-ratio sequence, so groups are mixed through the swarm
+     * and a drone keeps its group when others are added or removed.
+     */
+    private groupFor(id: number): number {
+        const profiles = this.config.groupProfiles;
+        const total = profiles.reduce((sum, p) => sum + Math.max(0, p.share), 0);
+        if (total <= 0) return -1;
 
-            this.boids.push(new Boid(i, position, velocity));
+        let u = ((id * 0.6180339887498949) % 1) * total;
+        for (let g = 0; g < profiles.length; g++) {
+            u -= Math.max(0, profiles[g].share);
+            if (u < 0) return g;
         }
+        return profiles.length - 1;
+    }
+
+    /**
+     * Config a drone flies by: its group's profile view, or the global config
+     */
+    configFor(boid: Boid): BoidConfig {
+        return boid.groupId >= 0 ? this.groupConfigs[boid.groupId] ?? this.config : this.config;
+    }
+
+    /**
+     * Random initial velocity at half the maximum speed
+     */
+    private randomVelocity(out: Vector3): Vector3 {
+        const rng = this.config.rng;
+        return out.set(
+            rng.next() - 0.5,
+            rng.next() - 0.5,
+            rng.next() - 0.5
+        ).normalize().multiplyScalar(this.config.maxSpeed * 0.5);
     }
 
     /**
-     * Add single Boid
+     * Change the random seed and rebuild the swarm from it
+     */
+    setSeed(seed: number): void {
+        this.config.seed = seed;
+        this.reset();
+    }
+
+    /**
+     * Add single Boid with the next unused id
      */
     addBoid(position?: Vector3, velocity?: Vector3): Boid {
-        const boid = new Boid(this.boids.length, position, velocity);
+        const index = this.boids.length;
+        if (this.buffers.ensureCapacity(index + 1)) {
+            // Arrays were reallocated: re-point every existing view
+            this.boids.forEach((b, i) => b.bind(i));
+        }
+
+        const boid = new Boid(this.nextBoidId++, this.buffers, index);
+        boid.position.copy(position || new Vector3());
+        boid.previousPosition.copy(boid.position);
+        if (velocity) {
+            boid.velocity.copy(velocity);
+        } else {
+            this.randomVelocity(boid.velocity);
+        }
+        boid.acceleration.set(0, 0, 0);
+        DroneDynamics.resetState(this.buffers, index);
+        BatteryModel.charge(this.buffers, index, this.config);
+        this.perception.resetSlot(index, this.config);
         this.boids.push(boid);
+        const group = this.groupFor(boid.id);
+        if (group >= 0) boid.color.setHex(this.config.groupProfiles[group].color);
+        boid.groupId = group;
+        this.emit({ type: 'added', boid });
         return boid;
     }
 
     /**
-     * Remove Boid
+     * Remove Boid (the last Boid moves into the freed slot)
      */
     removeBoid(id: number): void {
         const index = this.boids.findIndex(b => b.id === id);
-        if (index !== -1) {
-            this.boids.splice(index, 1);
+        if (index === -1) return;
+
+        this.emit({ type: 'removed', boid: this.boids[index] });
+        const lastIndex = this.boids.length - 1;
+        if (index !== lastIndex) {
+            const last = this.boids[lastIndex];
+            this.buffers.moveSlot(lastIndex, index);
+            this.perception.moveSlot(lastIndex, index);
+            last.bind(index);
+            this.boids[index] = last;
         }
+        this.boids.pop();
     }
 
     /**
-     * Update all Boids
+     * Advance the simulation by `deltaTime` seconds of wall-clock time.
+     * Runs as many fixed steps as fit into the accumulated time; `onStep` is
+     * called before each step so time-driven logic (e.g. the story) stays in sync.
+     * Returns the number of steps executed.
      */
-    update(): void {
-        const startTime = performance.now();
+    update(deltaTime: number, onStep?: (dt: number) => void): number {
+        const stepSize = this.config.fixedTimeStep;
+        this.accumulator += Math.max(0, deltaTime);
 
-        // 1. Rebuild spatial hash
-        this.spatialHash.clear();
-        for (const boid of this.boids) {
-            this.spatialHash.insert(boid);
+        let steps = 0;
+        while (this.accumulator >= stepSize && steps < this.config.maxSubSteps) {
+            onStep?.(stepSize);
+            this.step(stepSize);
+            this.accumulator -= stepSize;
+            steps++;
         }
 
-        // 2. Find neighbors
-        const neighborStartTime = performance.now();
-        const maxSearchRadius = Math.max(
-            this.config.separationDistance,
-            this.config.alignmentDistance,
-            this.config.cohesionDistance
-        );
+        // Too far behind (slow frame or background tab): drop the backlog
+        if (this.accumulator >= stepSize) {
+            this.accumulator %= stepSize;
+        }
 
-        for (const boid of this.boids) {
-            const nearby = this.spatialHash.findNearby(boid.position, maxSearchRadius);
+        this.interpolationAlpha = this.accumulator / stepSize;
+        return steps;
+    }
+
+    /**
+     * Run a single fixed simulation step of `dt` seconds
+     */
+    step(dt: number): void {
+        const startTime = performance.now();
+
+        const count = this.boids.length;
+        const positions = this.buffers.positions;
+        this.groupConfigs = this.config.groupProfiles.map(p => this.config.withProfile(p));
+
+        // 1. Rebuild spatial index (switching structure if the config changed)
+        if (this.spatialIndex.type !== this.config.spatialIndex) {
+            this.spatialIndex = BoidSystem.createSpatialIndex(this.config.spatialIndex, this.config.spatialHashCellSize);
+        }
+        this.spatialIndex.setCellSize(this.config.spatialHashCellSize);
+        this.spatialIndex.build(positions, count);
 
-            // Filter and limit neighbor count
-            boid.neighbors = nearby
-                .filter(other => other.id !== boid.id && boid.isInVision(other, this.config))
-                .slice(0, this.config.maxNeighbors);
+        // Safety check on the positions the previous step ended with
+        if (this.config.collisionDetection) {
+            this.safety.check(this.boids, this.buffers, this.spatialIndex, this.config, this.simulationTime, this.sceneLabel);
         }
+
+        // Fire scheduled faults and move failed drones
+        this.faults.update(this.boids, this.buffers, this.config, this.simulationTime, this.sceneLabel);
+
+        // 2. Find neighbors
+        const neighborStartTime = performance.now();
+        this.findNeighbors();
         this.stats.neighborSearchTime = performance.now() - neighborStartTime;
+        if (this.config.collectMetrics) {
+            this.metrics.update(this.boids, this.buffers, this.config, this.simulationTime);
+        }
+
+        // 3. Assign each follower the nearest leader it can see
+        this.assignLeaders();
 
-        // 3. Calculate forces
+        // 4. Calculate forces, seeing the swarm through the perception model if enabled
         const forceStartTime = performance.now();
+        const perception = this.config.usePerception ? this.perception : null;
+        perception?.update(this.buffers, count, this.config, dt);
         for (const boid of this.boids) {
-            boid.calculateForces(this.boids, this.config);
+            boid.calculateForces(this.boids, this.configFor(boid), this.obstacles, perception, this.forceFields);
         }
         this.stats.forceCalculationTime = performance.now() - forceStartTime;
+        this.updatePerceptionStats(dt);
 
-        // 4. Update positions and velocities
+        // 5. Sample the wind at every drone
+        if (this.config.useWind) {
+            this.sampleWind();
+        } else {
+            this.stats.windSpeedAvg = 0;
+            this.stats.windSpeedMax = 0;
+        }
+
+        // 6. Update positions and velocities
+        this.dynamics.beginStep();
         for (const boid of this.boids) {
-            boid.update(this.config);
+            boid.update(this.configFor(boid), dt, this.dynamics);
+        }
+        const saturation = this.dynamics.saturation;
+        this.stats.saturatedAcceleration = saturation.acceleration;
+        this.stats.saturatedThrust = saturation.thrust;
+        this.stats.saturatedSpeed = saturation.speed;
+        this.stats.saturatedYaw = saturation.yaw;
+
+        if (this.config.useBattery) {
+            this.battery.update(this.boids, this.buffers, this.config, dt);
         }
+        this.simulationTime += dt;
+
+        // 7. Count obstacle penetrations
+        this.detectPenetrations();
+
+        // 8. Check geofences
+        this.geofence.check(this.boids, this.config, this.simulationTime, this.sceneLabel);
 
         this.stats.updateTime = performance.now() - startTime;
     }
 
+    /**
+     * Fill `buffers.winds` with the wind at each drone for this step
+     */
+    private sampleWind(): void {
+        this.wind.beginStep(this.config, this.obstacles);
+        const positions = this.buffers.positions;
+        const winds = this.buffers.winds;
+        let sum = 0;
+        let max = 0;
+
+        for (let i = 0; i < this.boids.length; i++) {
+            const i3 = i * 3;
+            const speed = this.wind.sample(
+                positions[i3], positions[i3 + 1], positions[i3 + 2],
+                this.simulationTime, this.config, winds, i3
+            );
+            sum += speed;
+            if (speed > max) max = speed;
+        }
+
+        this.stats.windSpeedAvg = this.boids.length > 0 ? sum / this.boids.length : 0;
+        this.stats.windSpeedMax = max;
+    }
+
+    /**
+     * Summarize the perception model's link statistics for this step
+     */
+    private updatePerceptionStats(dt: number): void {
+        if (!this.config.usePerception) {
+            this.stats.packetLossRate = 0;
+            this.stats.unknownNeighborRate = 0;
+            this.stats.neighborStateAge = 0;
+            this.stats.gpsErrorRms = 0;
+            return;
+        }
+
+        const { lookups, dropped, lost, ageSum } = this.perception.stats;
+        const used = lookups - lost;
+        this.stats.packetLossRate = lookups > 0 ? dropped / lookups : 0;
+        this.stats.unknownNeighborRate = lookups > 0 ? lost / lookups : 0;
+        this.stats.neighborStateAge = used > 0 ? ageSum / used * dt : 0;
+        this.stats.gpsErrorRms = this.perception.gpsErrorRms(this.boids.length);
+    }
+
+    /**
+     * Mean distance between drones and their story targets (m), 0 if none has one
+     */
+    getTargetTrackingError(): number {
+        let sum = 0;
+        let count = 0;
+        for (const boid of this.boids) {
+            if (!boid.storyTarget) continue;
+            sum += boid.position.distanceTo(boid.storyTarget);
+            count++;
+        }
+        return count > 0 ? sum / count : 0;
+    }
+
+    /**
+     * Neighbor filter for the k-nearest query when the vision cone is enabled
+     */
+    private inVisionCone = (other: number): boolean =>
+        this.boids[this.queryIndex].canSee(other, this.config);
+
+    /**
+     * Fill each Boid's neighbor list (slot indices, nearest first) in the shared buffers
+     */
+    private findNeighbors(): void {
+        const searchRadius = (config: BoidConfig) => Math.max(
+            config.separationDistance,
+            config.alignmentDistance,
+            config.cohesionDistance
+        );
+        const globalRadius = searchRadius(this.config);
+        const groupRadii = this.groupConfigs.map(searchRadius);
+        const maxNeighbors = this.config.maxNeighbors;
+        this.buffers.ensureNeighborStride(maxNeighbors);
+
+        const positions = this.buffers.positions;
+        const indices = this.buffers.neighborIndices;
+        const counts = this.buffers.neighborCounts;
+        const accept = this.config.useVisionCone ? this.inVisionCone : undefined;
+
+        for (let i = 0; i < this.boids.length; i++) {
+            this.queryIndex = i;
+            const group = this.boids[i].groupId;
+            counts[i] = this.spatialIndex.findNearest(
+                positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2],
+                groupRadii[group] ?? globalRadius, maxNeighbors, indices, i * maxNeighbors, i, accept
+            );
+        }
+    }
+
+    /**
+     * Refresh leader flags and link every follower to its nearest visible leader
+     */
+    private assignLeaders(): void {
+        const leaderIds = this.config.leaderIds;
+        const leaders: Boid[] = [];
+
+        for (const boid of this.boids) {
+            boid.isLeader = leaderIds.has(boid.id);
+            boid.leader = null;
+            if (boid.isLeader) leaders.push(boid);
+        }
+
+        if (leaders.length === 0 || this.config.leaderFollowWeight <= 0) return;
+
+        const maxDistSq = this.config.leaderPerceptionDistance * this.config.leaderPerceptionDistance;
+        for (const boid of this.boids) {
+            if (boid.isLeader) continue;
+
+            let bestDistSq = maxDistSq;
+            for (const leader of leaders) {
+                const distSq = boid.position.distanceToSquared(leader.position);
+                if (distSq < bestDistSq && boid.isInVision(leader, this.config)) {
+                    bestDistSq = distSq;
+                    boid.leader = leader;
+                }
+            }
+        }
+    }
+
+    /**
+     * Flag Boids that ended the step inside an obstacle
+     */
+    private detectPenetrations(): void {
+        let inside = 0;
+
+        for (const boid of this.boids) {
+            let hit = false;
+            for (const obstacle of this.obstacles) {
+                if (obstacle.isNear(boid.position, 0) && obstacle.containsPoint(boid.position)) {
+                    hit = true;
+                    break;
+                }
+            }
+
+            if (hit) {
+                inside++;
+                if (!boid.insideObstacle) this.stats.penetrationEvents++;
+            }
+            boid.insideObstacle = hit;
+        }
+
+        this.stats.obstaclePenetrations = inside;
+    }
+
+    /**
+     * Register an obstacle
+     */
+    addObstacle(obstacle: Obstacle): Obstacle {
+        obstacle.id = this.nextObstacleId++;
+        this.obstacles.push(obstacle);
+        return obstacle;
+    }
+
+    /**
+     * Register the world-space bounding boxes of meshes (e.g. city buildings) as obstacles
+     */
+    addObstaclesFromMeshes(meshes: Object3D[], source: ObstacleSource = 'building'): Obstacle[] {
+        return meshes.map(mesh => this.addObstacle(new BoxObstacle(new Box3().setFromObject(mesh), source)));
+    }
+
+    /**
+     * Add a sphere obstacle
+     */
+    addSphereObstacle(center: Vector3, radius: number): Obstacle {
+        return this.addObstacle(new SphereObstacle(center, radius));
+    }
+
+    /**
+     * Add a vertical cylinder obstacle standing on `base`
+     */
+    addCylinderObstacle(base: Vector3, radius: number, height: number): Obstacle {
+        return this.addObstacle(new CylinderObstacle(base, radius, height));
+    }
+
+    /**
+     * Remove obstacle
+     */
+    removeObstacle(id: number): void {
+        const index = this.obstacles.findIndex(o => o.id === id);
+        if (index !== -1) {
+            this.obstacles.splice(index, 1);
+        }
+    }
+
+    /**
+     * Remove all obstacles from a source (all obstacles if omitted)
+     */
+    clearObstacles(source?: ObstacleSource): void {
+        this.obstacles = source ? this.obstacles.filter(o => o.source !== source) : [];
+    }
+
+    /**
+     * Register a force field
+     */
+    addForceField(field: ForceField): ForceField {
+        field.id = this.nextForceFieldId++;
+        this.forceFields.push(field);
+        return field;
+    }
+
+    /**
+     * Place an attractor, repeller or vortex at `position`
+     */
+    placeForceField(kind: ForceFieldKind, position: Vector3, radius: number, strength: number): ForceField {
+        return this.addForceField(new ForceField(kind, position, radius, strength));
+    }
+
+    /**
+     * Remove force field
+     */
+    removeForceField(id: number): void {
+        const index = this.forceFields.findIndex(f => f.id === id);
+        if (index !== -1) {
+            this.forceFields.splice(index, 1);
+        }
+    }
+
+    /**
+     * Remove all force fields
+     */
+    clearForceFields(): void {
+        this.forceFields = [];
+    }
+
     /**
      * Set target point
      */
@@ -138,7 +647,12 @@ export class BoidSystem {
     randomizeLeaders(count: number): void {
         this.config.leaderIds.clear();
 
-        const shuffled = [...this.boids].sort(() => Math.random() - 0.5);
+        // Fisher-Yates shuffle driven by the seeded generator
+        const shuffled = [...this.boids];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(this.config.rng.next() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
         for (let i = 0; i < Math.min(count, shuffled.length); i++) {
             this.config.leaderIds.add(shuffled[i].id);
         }
@@ -152,17 +666,60 @@ export class BoidSystem {
         this.initializeBoids(count);
     }
 
+    /**
+     * Fully charge every drone; landed and returning drones resume flight
+     * (failed drones stay down)
+     */
+    rechargeAll(): void {
+        for (const boid of this.boids) {
+            if (boid.fault) continue;
+            BatteryModel.charge(this.buffers, boid.index, this.config);
+            boid.energyState = 'flying';
+        }
+    }
+
+    /**
+     * Fail drone `id`, or a random lit and flying drone if null
+     */
+    injectFault(type: FaultType, id: number | null = null): void {
+        this.faults.inject(this.boids, type, id, this.simulationTime, this.sceneLabel);
+    }
+
+    /**
+     * Fail drone `id` (random if null) `delay` seconds from now
+     */
+    scheduleFault(delay: number, type: FaultType, id: number | null = null): void {
+        this.faults.schedule({ time: this.simulationTime + delay, type, id });
+    }
+
     /**
      * Get system statistics
      */
     getStats() {
-        const spatialStats = this.spatialHash.getStats();
+        const spatialStats = this.spatialIndex.getStats();
 
         return {
             boidCount: this.boids.length,
+            simulationTime: this.simulationTime,
+            obstacleCount: this.obstacles.length,
             ...this.stats,
             ...spatialStats,
-            avgNeighbors: this.boids.reduce((sum, b) => sum + b.neighbors.length, 0) / this.boids.length
+            ...this.battery.getFleetStats(this.boids, this.buffers, this.config),
+            targetTrackingError: this.getTargetTrackingError(),
+            collisionEvents: this.safety.totals.collisions,
+            nearMissEvents: this.safety.totals.nearMisses,
+            activeCollisions: this.safety.activeCollisions,
+            activeNearMisses: this.safety.activeNearMisses,
+            minSeparation: this.safety.minSeparation,
+            lastSafetyEvent: this.safety.events[this.safety.events.length - 1] ?? null,
+            geofenceBreaches: this.geofence.activeBreaches,
+            geofenceBreachEvents: this.geofence.totalBreaches,
+            lastGeofenceBreach: this.geofence.events[this.geofence.events.length - 1] ?? null,
+            failedDrones: this.faults.failedCount,
+            lastFault: this.faults.events[this.faults.events.length - 1] ?? null,
+            formationReport: this.formationReport,
+            metrics: this.metrics.latest,
+            avgNeighbors: this.boids.length > 0 ? this.boids.reduce((sum, b) => sum + b.neighborCount, 0) / this.boids.length : 0
         };
     }
 
@@ -172,10 +729,14 @@ export class BoidSystem {
     exportConfig(): string {
         return JSON.stringify({
             ...this.config,
+            rng: undefined,
             bounds: {
                 min: this.config.bounds.min.toArray(),
                 max: this.config.bounds.max.toArray()
             },
+            leaderIds: [...this.config.leaderIds],
+            leaderWaypoints: this.config.leaderWaypoints.map(w => w.toArray()),
+            launchPad: this.config.launchPad.toArray(),
             targetPosition: this.config.targetPosition?.toArray() || null
         }, null, 2);
     }
@@ -185,17 +746,31 @@ export class BoidSystem {
      */
     importConfig(json: string): void {
         try {
-            const data = JSON.parse(json);
+            const { rng: _rng, bounds, leaderIds, leaderWaypoints, launchPad, ...data } = JSON.parse(json);
             Object.assign(this.config, data);
 
-            if (data.bounds) {
-                this.config.bounds.min.fromArray(data.bounds.min);
-                this.config.bounds.max.fromArray(data.bounds.max);
+            if (bounds) {
+                this.config.bounds.min.fromArray(bounds.min);
+                this.config.bounds.max.fromArray(bounds.max);
+            }
+
+            if (Array.isArray(leaderIds)) {
+                this.config.leaderIds = new Set(leaderIds);
+            }
+
+            if (Array.isArray(leaderWaypoints)) {
+                this.config.leaderWaypoints = leaderWaypoints.map((w: number[]) => new Vector3().fromArray(w));
+            }
+
+            if (Array.isArray(launchPad)) {
+                this.config.launchPad.fromArray(launchPad);
             }
 
             if (data.targetPosition) {
                 this.config.targetPosition = new Vector3().fromArray(data.targetPosition);
             }
+
+            this.assignGroups();
         } catch (error) {
             console.error('Configuration import failed:', error);
         }
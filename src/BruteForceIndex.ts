@@ -0,0 +1,74 @@
+import { NearestCollector, SpatialIndex, SpatialIndexStats } from './SpatialIndex';
+
+/**
+ * Tests every Boid against every other - O(n²). Not meant for large swarms;
+ * it is the reference the other indices can be checked against.
+ */
+export class BruteForceIndex implements SpatialIndex {
+    readonly type = 'bruteforce';
+    private positions: Float32Array = new Float32Array(0);
+    private count = 0;
+    private nearest = new NearestCollector();
+
+    private queryCount = 0;
+    private candidatesTested = 0;
+
+    setCellSize(_cellSize: number): void {
+        // No cells
+    }
+
+    build(positions: Float32Array, count: number): void {
+        this.positions = positions;
+        this.count = count;
+        this.queryCount = 0;
+        this.candidatesTested = 0;
+    }
+
+    findNearby(_x: number, _y: number, _z: number, _radius: number, out: number[]): number {
+        out.length = 0;
+        for (let i = 0; i < this.count; i++) {
+            out.push(i);
+        }
+        return out.length;
+    }
+
+    findNearest(
+        x: number, y: number, z: number,
+        radius: number,
+        k: number,
+        out: Int32Array | number[],
+        outOffset: number = 0,
+        exclude: number = -1,
+        accept?: (index: number) => boolean
+    ): number {
+        if (k <= 0) return 0;
+        const nearest = this.nearest;
+        nearest.reset(k, radius);
+        this.queryCount++;
+
+        const positions = this.positions;
+        for (let j = 0; j < this.count; j++) {
+            if (j === exclude) continue;
+            this.candidatesTested++;
+            const ox = positions[j * 3] - x;
+            const oy = positions[j * 3 + 1] - y;
+            const oz = positions[j * 3 + 2] - z;
+            const distSq = ox * ox + oy * oy + oz * oz;
+            if (!nearest.wants(distSq) || (accept && !accept(j))) continue;
+            nearest.insert(j, distSq);
+        }
+
+        return nearest.write(out, outOffset);
+    }
+
+    getStats(): SpatialIndexStats {
+        const queries = Math.max(1, this.queryCount);
+        return {
+            cellCount: this.count > 0 ? 1 : 0,
+            avgBoidsPerCell: this.count,
+            maxBoidsInCell: this.count,
+            avgCellsPerQuery: this.queryCount > 0 ? 1 : 0,
+            avgCandidatesPerQuery: this.candidatesTested / queries
+        };
+    }
+}
@@ -1,8 +1,17 @@
 import GUI from 'lil-gui';
 import { Vector3 } from 'three';
+import { AnalyticsPanel } from './AnalyticsPanel';
 import { BoidSystem } from './BoidSystem';
+import { FaultType } from './FaultInjector';
+import { ForceFieldKind } from './ForceField';
+import { createVenueGeofence } from './Geofence';
 import { Scene } from './Scene';
+import { parseShowFile } from './ShowFile';
 import { StoryController } from './StoryController';
+import { SimulationWorkerClient } from './SimulationWorkerClient';
+
+// Colors handed to new group profiles in turn
+const GROUP_COLORS = [0xff5555, 0x55aaff, 0x66dd66, 0xffcc44, 0xcc66ff, 0x44dddd];
 
 /**
  * GUI parameter control panel
@@ -12,6 +21,23 @@ export class Controls {
     private boidSystem: BoidSystem;
     private scene: Scene;
     private statsElement!: HTMLDivElement;
+    // Rolling swarm metric charts, left of the stats panel
+    private analyticsPanel = new AnalyticsPanel();
+    // Simulation worker, when the swarm runs off the main thread
+    private worker: SimulationWorkerClient | null = null;
+
+    // Called when the user switches the Web Worker mode on or off
+    onWorkerToggle?: (enabled: boolean) => void;
+
+    // Endurance warning for the running story (shown in the stats panel)
+    private storyWarning: string | null = null;
+
+    // One sub-folder per placed force field, rebuilt when fields are added or removed
+    private forceFieldList!: GUI;
+    // One sub-folder per group profile, rebuilt when profiles are added, removed or imported
+    private groupProfileList!: GUI;
+    // One sub-folder per geofence zone, rebuilt when zones are added, removed or imported
+    private geofenceList!: GUI;
 
     constructor(boidSystem: BoidSystem, scene: Scene) {
         this.boidSystem = boidSystem;
@@ -21,6 +47,16 @@ export class Controls {
 
         this.setupGUI();
         this.setupStats();
+
+        // Any parameter edit is mirrored to the worker
+        this.gui.onChange(() => this.worker?.syncConfig());
+    }
+
+    /**
+     * Attach (or detach) the simulation worker that commands are forwarded to
+     */
+    setWorker(worker: SimulationWorkerClient | null): void {
+        this.worker = worker;
     }
 
     public addStoryModeButton(storyController: StoryController): void {
@@ -29,21 +65,54 @@ export class Controls {
             toggleStory: () => {
                 storyControls.isStoryRunning = !storyControls.isStoryRunning;
                 if (storyControls.isStoryRunning) {
+                    this.storyWarning = storyController.checkEndurance();
+                    if (this.storyWarning) console.warn(this.storyWarning);
                     storyController.start();
                     // Disable flocking during story
                     this.boidSystem.config.enableFlocking = false;
                 } else {
+                    this.storyWarning = null;
                     storyController.stop();
                     // Re-enable flocking after story
                     this.boidSystem.config.enableFlocking = true;
                     this.boidSystem.reset(); // Reset to random positions
                 }
-                 this.gui.controllersRecursive().forEach(c => c.updateDisplay());
+                this.worker?.setStoryRunning(storyControls.isStoryRunning);
+                this.gui.controllersRecursive().forEach(c => c.updateDisplay());
             }
         };
 
         const presetsFolder = this.gui.folders.find(f => f._title === 'Preset Modes') || this.gui.addFolder('Preset Modes');
-        presetsFolder.add(storyControls, 'toggleStory').name('🎇 Play Demo Story');
+        presetsFolder.add(storyControls, 'toggleStory').name('🎇 Play Show');
+        presetsFolder.add({ load: () => this.loadShow(storyController, storyControls) }, 'load').name('📂 Load Show File');
+    }
+
+    /**
+     * Load a show file (JSON, see ShowFile.ts), stopping the show now playing
+     */
+    private loadShow(storyController: StoryController, storyControls: { isStoryRunning: boolean; toggleStory: () => void }): void {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json';
+        input.onchange = (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (file) {
+                const reader = new FileReader();
+                reader.onload = (event) => {
+                    try {
+                        const show = parseShowFile(JSON.parse(event.target?.result as string));
+                        if (storyControls.isStoryRunning) storyControls.toggleStory();
+                        storyController.load(show);
+                        this.worker?.loadShow(show);
+                        console.log(`Show loaded: ${show.name}`);
+                    } catch (error) {
+                        console.error('Show file load failed:', error);
+                    }
+                };
+                reader.readAsText(file);
+            }
+        };
+        input.click();
     }
 
     /**
@@ -58,9 +127,15 @@ export class Controls {
             .name('Drone Count')
             .onChange((value: number) => {
                 this.boidSystem.initializeBoids(value);
-                this.scene.rebuildInstancedMesh(value);
+                this.worker?.initializeBoids(value);
             });
         swarmFolder.add(config, 'enableFlocking').name('Enable Flocking');
+        swarmFolder.add(config, 'seed').name('Random Seed')
+            .onFinishChange((value: number) => {
+                this.boidSystem.setSeed(Math.floor(value));
+                this.worker?.syncConfig();
+                this.worker?.reset();
+            });
         swarmFolder.open();
 
         // ========== Core Behavior Weights ==========
@@ -70,7 +145,7 @@ export class Controls {
         behaviorsFolder.add(config, 'cohesionWeight', 0, 5, 0.1).name('Cohesion Weight');
         behaviorsFolder.add(config, 'wanderWeight', 0, 2, 0.1).name('Wander Weight');
         behaviorsFolder.add(config, 'targetWeight', 0, 2, 0.1).name('Target Attraction Weight');
-        behaviorsFolder.add(config, 'avoidanceWeight', 0, 5, 0.1).name('Avoidance Weight (Reserved)');
+        behaviorsFolder.add(config, 'avoidanceWeight', 0, 5, 0.1).name('Avoidance Weight');
         behaviorsFolder.open();
 
         // ========== Perception Distances ==========
@@ -83,11 +158,79 @@ export class Controls {
 
         // ========== Motion Constraints ==========
         const motionFolder = this.gui.addFolder('Motion Parameters');
-        motionFolder.add(config, 'maxSpeed', 1, 20, 0.5).name('Max Speed');
-        motionFolder.add(config, 'maxForce', 0.01, 1, 0.01).name('Max Steering Force');
-        motionFolder.add(config, 'maxAcceleration', 0.1, 2, 0.1).name('Max Acceleration');
+        motionFolder.add(config, 'maxSpeed', 1, 100, 1).name('Max Speed (m/s)');
+        motionFolder.add(config, 'maxForce', 1, 100, 1).name('Max Steering Force (m/s²)');
+        motionFolder.add(config, 'maxAcceleration', 1, 200, 1).name('Max Acceleration (m/s²)');
+        motionFolder.add(config, 'steeringResponseTime', 0.05, 3, 0.05).name('Steering Response (s)');
         motionFolder.open();
 
+        // ========== Formation Arrival ==========
+        const arrivalFolder = this.gui.addFolder('Formation Arrival');
+        arrivalFolder.add(config, 'arrivalRadius', 1, 200, 1).name('Slowing Radius (m)');
+        arrivalFolder.add(config, 'arrivalDamping', 0.3, 3, 0.05).name('Damping Ratio');
+        arrivalFolder.add(config, 'formationTolerance', 0.1, 10, 0.1).name('Hold Tolerance (m)');
+        arrivalFolder.add(config, 'optimizeAssignment').name('Optimal Slot Assignment');
+        arrivalFolder.add(config, 'planTransitions').name('Plan Transitions');
+        arrivalFolder.close();
+
+        // ========== Drone Dynamics ==========
+        const dynamicsFolder = this.gui.addFolder('Drone Dynamics');
+        dynamicsFolder.add(config, 'useDroneDynamics').name('Quadrotor Model');
+        dynamicsFolder.add(config, 'droneMass', 0.1, 10, 0.1).name('Mass (kg)');
+        dynamicsFolder.add(config, 'thrustToWeight', 1.1, 5, 0.1).name('Thrust / Weight');
+        dynamicsFolder.add(config, 'dragCoefficient', 0, 0.2, 0.005).name('Drag Coefficient (kg/m)');
+        dynamicsFolder.add(config, 'thrustResponseTime', 0, 1, 0.01).name('Thrust Response (s)');
+        dynamicsFolder.add(config, 'maxHorizontalSpeed', 1, 40, 1).name('Max Horizontal Speed (m/s)');
+        dynamicsFolder.add(config, 'maxClimbRate', 0.5, 15, 0.5).name('Max Climb Rate (m/s)');
+        dynamicsFolder.add(config, 'maxDescentRate', 0.5, 15, 0.5).name('Max Descent Rate (m/s)');
+        dynamicsFolder.add(config, 'maxHorizontalAcceleration', 0.5, 30, 0.5).name('Max Horizontal Accel (m/s²)');
+        dynamicsFolder.add(config, 'maxVerticalAcceleration', 0.5, 20, 0.5).name('Max Vertical Accel (m/s²)');
+        dynamicsFolder.add(config, 'maxYawRate', 10, 720, 10).name('Max Yaw Rate (deg/s)');
+        dynamicsFolder.close();
+
+        // ========== Battery & Energy ==========
+        const batteryFolder = this.gui.addFolder('Battery & Energy');
+        batteryFolder.add(config, 'useBattery').name('Battery Model');
+        batteryFolder.add(config, 'batteryCapacity', 1, 200, 1).name('Capacity (Wh)');
+        batteryFolder.add(config, 'hoverPower', 20, 1000, 10).name('Hover Power (W)');
+        batteryFolder.add(config, 'speedPowerCoefficient', 0, 5, 0.1).name('Speed Power (W/(m/s)²)');
+        batteryFolder.add(config, 'propulsionEfficiency', 0.1, 1, 0.05).name('Climb Efficiency');
+        batteryFolder.add(config, 'returnThreshold', 0, 0.9, 0.05).name('Return Threshold');
+        batteryFolder.add(config, 'colorByBattery').name('Color by Charge');
+        batteryFolder.add({
+            recharge: () => {
+                this.boidSystem.rechargeAll();
+                this.worker?.rechargeAll();
+            }
+        }, 'recharge').name('🔋 Recharge All');
+        batteryFolder.close();
+
+        // ========== Wind ==========
+        const windFolder = this.gui.addFolder('Wind');
+        windFolder.add(config, 'useWind').name('Enable Wind');
+        windFolder.add(config, 'windSpeed', 0, 30, 0.5).name('Wind Speed (m/s)');
+        windFolder.add(config, 'windDirection', 0, 360, 5).name('Direction (deg)');
+        windFolder.add(config, 'windShearExponent', 0, 0.5, 0.01).name('Shear Exponent');
+        windFolder.add(config, 'gustStrength', 0, 2, 0.05).name('Gust Strength');
+        windFolder.add(config, 'gustInterval', 1, 60, 1).name('Gust Interval (s)');
+        windFolder.add(config, 'gustDuration', 0.5, 20, 0.5).name('Gust Duration (s)');
+        windFolder.add(config, 'turbulenceIntensity', 0, 1, 0.01).name('Turbulence Intensity');
+        windFolder.add(config, 'turbulenceScale', 5, 300, 5).name('Turbulence Scale (m)');
+        windFolder.add(config, 'buildingChannelling', 0, 2, 0.05).name('Building Channelling');
+        windFolder.add(config, 'channellingRange', 5, 150, 5).name('Channelling Range (m)');
+        windFolder.add(config, 'showWindArrows').name('Show Wind Arrows');
+        windFolder.close();
+
+        // ========== Perception ==========
+        const sensingFolder = this.gui.addFolder('Sensing & Communication');
+        sensingFolder.add(config, 'usePerception').name('Imperfect Perception');
+        sensingFolder.add(config, 'gpsNoise', 0, 10, 0.1).name('GPS Noise (m)');
+        sensingFolder.add(config, 'gpsCorrelationTime', 0, 60, 0.5).name('GPS Drift Time (s)');
+        sensingFolder.add(config, 'velocityNoise', 0, 5, 0.05).name('Velocity Noise (m/s)');
+        sensingFolder.add(config, 'packetDropRate', 0, 1, 0.01).name('Packet Drop Rate');
+        sensingFolder.add(config, 'perceptionLatency', 0, 0.5, 0.01).name('Latency (s)');
+        sensingFolder.close();
+
         // ========== Vision Parameters ==========
         const visionFolder = this.gui.addFolder('Vision Settings');
         visionFolder.add(config, 'useVisionCone').name('Enable Vision Cone Restriction');
@@ -114,6 +257,33 @@ export class Controls {
         wanderFolder.add(config, 'wanderDistance', 10, 100, 10).name('Projection Distance');
         wanderFolder.add(config, 'wanderJitter', 0.1, 5, 0.1).name('Jitter Strength');
 
+        // ========== Leader Following ==========
+        const leaderFolder = this.gui.addFolder('Leader Following');
+        leaderFolder.add({ count: config.leaderIds.size }, 'count', 0, 50, 1)
+            .name('Leader Count')
+            .onChange((value: number) => this.boidSystem.randomizeLeaders(value));
+        leaderFolder.add(config, 'leaderFollowWeight', 0, 5, 0.1).name('Follow Weight');
+        leaderFolder.add(config, 'leaderMode', ['wander', 'target', 'waypoints']).name('Leader Path');
+        leaderFolder.add(config, 'leaderPerceptionDistance', 50, 1000, 10).name('Leader Visibility Range');
+        leaderFolder.add(config, 'leaderFollowDistance', 10, 200, 5).name('Follow Distance');
+        leaderFolder.add(config, 'leaderSlotSpacing', 5, 50, 1).name('Slot Spacing');
+        leaderFolder.add(config, 'highlightLeaders').name('Highlight Leaders');
+
+        // ========== Group Profiles ==========
+        const groupFolder = this.gui.addFolder('Group Profiles');
+        groupFolder.add(config, 'groupAwareMode').name('Group-Aware Flocking');
+        groupFolder.add(config, 'interGroupSeparationDistance', 5, 200, 5).name('Inter-Group Distance');
+        groupFolder.add(config, 'interGroupSeparationWeight', 0, 5, 0.1).name('Inter-Group Separation');
+        groupFolder.add({
+            add: () => {
+                const n = config.groupProfiles.length;
+                config.groupProfiles.push(config.createGroupProfile(`Group ${n + 1}`, GROUP_COLORS[n % GROUP_COLORS.length]));
+                this.onGroupProfilesEdited();
+            }
+        }, 'add').name('➕ Add Group');
+        this.groupProfileList = groupFolder.addFolder('Groups');
+        groupFolder.close();
+
         // ========== Target Point Control ==========
         const targetFolder = this.gui.addFolder('Target Point Settings');
         const targetControls = {
@@ -139,10 +309,188 @@ export class Controls {
         targetFolder.add(targetControls, 'y', 0, 500, 10).name('Y Coordinate').onChange(() => targetControls.setTarget());
         targetFolder.add(targetControls, 'z', -500, 500, 10).name('Z Coordinate').onChange(() => targetControls.setTarget());
 
+        // ========== Obstacles ==========
+        const obstacleFolder = this.gui.addFolder('Obstacles');
+        const obstacleControls = {
+            shape: 'sphere',
+            x: 0,
+            y: 250,
+            z: 0,
+            radius: 40,
+            height: 300,
+            add: () => {
+                const position = new Vector3(obstacleControls.x, obstacleControls.y, obstacleControls.z);
+                const obstacle = obstacleControls.shape === 'cylinder'
+                    ? this.boidSystem.addCylinderObstacle(position, obstacleControls.radius, obstacleControls.height)
+                    : this.boidSystem.addSphereObstacle(position, obstacleControls.radius);
+                this.scene.addObstacleMesh(obstacle);
+                this.worker?.syncObstacles();
+            },
+            clear: () => {
+                this.boidSystem.clearObstacles('user');
+                this.scene.syncObstacleMeshes();
+                this.worker?.syncObstacles();
+            }
+        };
+        obstacleFolder.add(obstacleControls, 'shape', ['sphere', 'cylinder']).name('Shape');
+        obstacleFolder.add(obstacleControls, 'x', -500, 500, 10).name('X (center / base)');
+        obstacleFolder.add(obstacleControls, 'y', 0, 800, 10).name('Y (center / base)');
+        obstacleFolder.add(obstacleControls, 'z', -500, 500, 10).name('Z (center / base)');
+        obstacleFolder.add(obstacleControls, 'radius', 5, 200, 5).name('Radius');
+        obstacleFolder.add(obstacleControls, 'height', 10, 800, 10).name('Cylinder Height');
+        obstacleFolder.add(obstacleControls, 'add').name('➕ Add Obstacle');
+        obstacleFolder.add(obstacleControls, 'clear').name('🧹 Clear User Obstacles');
+
+        // ========== Force Fields ==========
+        const fieldFolder = this.gui.addFolder('Attractors & Repellers');
+        const fieldControls = {
+            kind: 'attractor' as ForceFieldKind,
+            placeOnClick: false,
+            altitude: 200,
+            radius: 150,
+            strength: 1.5,
+            clear: () => {
+                this.boidSystem.clearForceFields();
+                this.onForceFieldsEdited();
+            }
+        };
+        fieldFolder.add(fieldControls, 'kind', {
+            'Attractor': 'attractor',
+            'Repeller (predator)': 'repeller',
+            'Vortex': 'vortex'
+        }).name('Type');
+        fieldFolder.add(fieldControls, 'placeOnClick')
+            .name('🖱 Place on Click')
+            .onChange((enabled: boolean) => {
+                this.scene.placement = enabled ? fieldControls : null;
+            });
+        fieldFolder.add(fieldControls, 'altitude', 0, 800, 10).name('Placement Altitude');
+        fieldFolder.add(fieldControls, 'radius', 10, 500, 10).name('Radius');
+        fieldFolder.add(fieldControls, 'strength', 0, 5, 0.1).name('Strength');
+        fieldFolder.add(fieldControls, 'clear').name('🧹 Clear Fields');
+        this.forceFieldList = fieldFolder.addFolder('Placed (drag cores to move)');
+        this.scene.onForceFieldsChanged = () => {
+            this.worker?.syncForceFields();
+            if (this.forceFieldList.folders.length !== this.boidSystem.forceFields.length) {
+                this.refreshForceFieldList();
+            }
+        };
+        fieldFolder.close();
+
+        // ========== Safety ==========
+        const safetyFolder = this.gui.addFolder('Safety');
+        safetyFolder.add(config, 'collisionDetection').name('Collision Detection');
+        safetyFolder.add(config, 'collisionRadius', 0.1, 10, 0.1).name('Collision Radius (m)');
+        safetyFolder.add(config, 'nearMissRadius', 0.5, 30, 0.5).name('Near-Miss Radius (m)');
+        safetyFolder.add(config, 'highlightCollisions').name('Highlight Collisions');
+        safetyFolder.add({ export: () => this.exportSafetyLog() }, 'export').name('📋 Export Safety Log');
+        safetyFolder.close();
+
+        // ========== Geofences ==========
+        const geofenceFolder = this.gui.addFolder('Geofences');
+        const noFly = {
+            x: 0,
+            z: 0,
+            radius: 60,
+            floor: 0,
+            ceiling: 800,
+            addVenue: () => {
+                config.geofences.push(createVenueGeofence(config));
+                this.onGeofencesEdited();
+            },
+            addNoFly: () => {
+                config.geofences.push({
+                    name: `No-Fly ${config.geofences.filter(z => z.kind === 'exclusion').length + 1}`,
+                    kind: 'exclusion',
+                    shape: 'cylinder',
+                    center: [noFly.x, noFly.z],
+                    radius: noFly.radius,
+                    floor: noFly.floor,
+                    ceiling: noFly.ceiling
+                });
+                this.onGeofencesEdited();
+            },
+            clear: () => {
+                config.geofences = [];
+                this.onGeofencesEdited();
+            },
+            export: () => this.exportGeofenceLog()
+        };
+        geofenceFolder.add(config, 'showGeofences').name('Show Zones');
+        geofenceFolder.add(config, 'geofenceMargin', 1, 100, 1).name('Margin (m)');
+        geofenceFolder.add(config, 'geofenceWeight', 0, 10, 0.1).name('Repulsion Weight');
+        geofenceFolder.add(noFly, 'addVenue').name('➕ Add Venue Polygon');
+        geofenceFolder.add(noFly, 'x', -500, 500, 10).name('No-Fly X');
+        geofenceFolder.add(noFly, 'z', -500, 500, 10).name('No-Fly Z');
+        geofenceFolder.add(noFly, 'radius', 5, 300, 5).name('No-Fly Radius (m)');
+        geofenceFolder.add(noFly, 'floor', 0, 800, 10).name('No-Fly Floor (m)');
+        geofenceFolder.add(noFly, 'ceiling', 0, 800, 10).name('No-Fly Ceiling (m)');
+        geofenceFolder.add(noFly, 'addNoFly').name('⛔ Add No-Fly Cylinder');
+        geofenceFolder.add(noFly, 'clear').name('🧹 Clear Zones');
+        geofenceFolder.add(noFly, 'export').name('📋 Export Breach Log');
+        this.geofenceList = geofenceFolder.addFolder('Zones');
+        this.refreshGeofenceList();
+        geofenceFolder.close();
+
+        // ========== Analytics ==========
+        const analyticsFolder = this.gui.addFolder('Analytics');
+        analyticsFolder.add(config, 'collectMetrics').name('Collect Metrics');
+        analyticsFolder.add(config, 'metricsInterval', 0.05, 2, 0.05).name('Sample Interval (s)');
+        analyticsFolder.add(config, 'metricsHistoryLength', 30, 1200, 10).name('History Length');
+        analyticsFolder.add(config, 'clusterDistance', 5, 200, 5).name('Cluster Distance (m)');
+        analyticsFolder.add(config, 'showAnalytics').name('📈 Show Charts');
+        analyticsFolder.add({ export: () => this.exportMetrics() }, 'export').name('📋 Export Metrics CSV');
+        analyticsFolder.close();
+
+        // ========== Fault Injection ==========
+        const faultFolder = this.gui.addFolder('Fault Injection');
+        const faultControls = {
+            type: 'kill' as FaultType,
+            id: -1,             // -1 picks a random lit, flying drone
+            delay: 10,
+            inject: () => {
+                const id = faultControls.id < 0 ? null : faultControls.id;
+                this.boidSystem.injectFault(faultControls.type, id);
+                this.worker?.injectFault(faultControls.type, id, 0);
+            },
+            schedule: () => {
+                const id = faultControls.id < 0 ? null : faultControls.id;
+                this.boidSystem.scheduleFault(faultControls.delay, faultControls.type, id);
+                this.worker?.injectFault(faultControls.type, id, faultControls.delay);
+            }
+        };
+        faultFolder.add(faultControls, 'type', {
+            'Kill (emergency landing)': 'kill',
+            'Freeze in place': 'freeze',
+            'Drift away': 'drift',
+            'LED off': 'ledOff'
+        }).name('Fault');
+        faultFolder.add(faultControls, 'id', -1, 20000, 1).name('Drone ID (-1 = random)');
+        faultFolder.add(faultControls, 'delay', 1, 120, 1).name('Schedule Delay (s)');
+        faultFolder.add(faultControls, 'inject').name('💥 Inject Now');
+        faultFolder.add(faultControls, 'schedule').name('⏱ Schedule');
+        faultFolder.add(config, 'faultFailsafeDelay', 0, 30, 0.5).name('Failsafe Delay (s)');
+        faultFolder.close();
+
         // ========== Performance Optimization ==========
         const performanceFolder = this.gui.addFolder('Performance Optimization');
+        performanceFolder.add(config, 'spatialIndex', {
+            'Spatial Hash': 'hash',
+            'Uniform Grid (sorted)': 'grid',
+            'Loose Octree': 'octree',
+            'Brute Force (reference)': 'bruteforce'
+        }).name('Spatial Index');
         performanceFolder.add(config, 'spatialHashCellSize', 20, 200, 10).name('Spatial Grid Cell Size');
-        performanceFolder.add(config, 'maxNeighbors', 10, 200, 10).name('Max Neighbors Count');
+        performanceFolder.add(config, 'maxNeighbors', 10, 200, 10).name('Max Neighbors (nearest)');
+        performanceFolder.add({ rate: Math.round(1 / config.fixedTimeStep) }, 'rate', [30, 60, 120, 240])
+            .name('Simulation Rate (Hz)')
+            .onChange((value: number) => {
+                config.fixedTimeStep = 1 / value;
+            });
+        performanceFolder.add(config, 'interpolate').name('Interpolate Rendering');
+        performanceFolder.add({ useWorker: new URLSearchParams(location.search).has('worker') }, 'useWorker')
+            .name('Run in Web Worker')
+            .onChange((value: boolean) => this.onWorkerToggle?.(value));
 
         // ========== Rendering Settings ==========
         const renderFolder = this.gui.addFolder('Rendering Settings');
@@ -200,7 +548,12 @@ export class Controls {
 
         // ========== System Operations ==========
         const systemFolder = this.gui.addFolder('System Operations');
-        systemFolder.add({ reset: () => this.boidSystem.reset() }, 'reset').name('🔄 Reset Positions');
+        systemFolder.add({
+            reset: () => {
+                this.boidSystem.reset();
+                this.worker?.reset();
+            }
+        }, 'reset').name('🔄 Reset Positions');
         systemFolder.add({
             export: () => this.exportConfig()
         }, 'export').name('💾 Export Config');
@@ -221,7 +574,7 @@ export class Controls {
                 config.separationWeight = 1.0;
                 config.alignmentWeight = 1.5;
                 config.cohesionWeight = 1.0;
-                config.maxSpeed = 3.0;
+                config.maxSpeed = 10;
                 config.wanderWeight = 0.05;
                 break;
 
@@ -229,7 +582,7 @@ export class Controls {
                 config.separationWeight = 0.5;
                 config.alignmentWeight = 0.3;
                 config.cohesionWeight = 0.2;
-                config.maxSpeed = 8.0;
+                config.maxSpeed = 25;
                 config.wanderWeight = 1.5;
                 break;
 
@@ -238,7 +591,7 @@ export class Controls {
                 config.alignmentWeight = 2.0;
                 config.cohesionWeight = 2.5;
                 config.separationDistance = 15;
-                config.maxSpeed = 2.5;
+                config.maxSpeed = 8;
                 config.wanderWeight = 0.0;
                 break;
 
@@ -246,12 +599,13 @@ export class Controls {
                 config.separationWeight = 1.0;
                 config.alignmentWeight = 0.8;
                 config.cohesionWeight = 0.5;
-                config.maxSpeed = 5.0;
+                config.maxSpeed = 15;
                 config.wanderWeight = 0.8;
                 break;
         }
 
         this.gui.controllersRecursive().forEach(controller => controller.updateDisplay());
+        this.worker?.syncConfig();
     }
 
     /**
@@ -292,11 +646,11 @@ export class Controls {
      * Update performance statistics
      */
     updateStats(fps: number): void {
-        const stats = this.boidSystem.getStats();
+        const stats = this.worker?.stats ?? this.boidSystem.getStats();
 
         this.statsElement.innerHTML = `
       <div style="color: #ff0; font-size: 14px; margin-bottom: 5px;">⚡ Performance Monitor</div>
-      <div>FPS: <span style="color: #0ff">${fps.toFixed(1)}</span></div>
+      <div>FPS: <span style="color: #0ff">${fps.toFixed(1)}</span>${this.worker ? ' <span style="color: #fa0">(worker)</span>' : ''}</div>
       <div>Drone Count: <span style="color: #0ff">${stats.boidCount}</span></div>
       <div>Update Time: <span style="color: #0ff">${stats.updateTime.toFixed(2)}ms</span></div>
       <div>Neighbor Search: <span style="color: #0ff">${stats.neighborSearchTime.toFixed(2)}ms</span></div>
@@ -305,7 +659,146 @@ export class Controls {
       <div>Spatial Cells: <span style="color: #0ff">${stats.cellCount}</span></div>
       <div>Avg Density: <span style="color: #0ff">${stats.avgBoidsPerCell.toFixed(1)}</span></div>
       <div>Max Density: <span style="color: #0ff">${stats.maxBoidsInCell}</span></div>
+      <div>Cells / Query: <span style="color: #0ff">${stats.avgCellsPerQuery.toFixed(1)}</span></div>
+      <div>Candidates / Query: <span style="color: #0ff">${stats.avgCandidatesPerQuery.toFixed(1)}</span></div>
+      <div>Obstacles: <span style="color: #0ff">${stats.obstacleCount}</span></div>
+      <div>Inside Obstacles: <span style="color: ${stats.obstaclePenetrations > 0 ? '#f55' : '#0ff'}">${stats.obstaclePenetrations}</span> (total ${stats.penetrationEvents})</div>
+      ${stats.boidCount > 0 && this.boidSystem.config.useBattery ? `
+      <div>Fleet Energy: <span style="color: #0ff">${stats.fleetEnergy.toFixed(0)} / ${stats.fleetCapacity.toFixed(0)} Wh</span></div>
+      <div>Battery: <span style="color: ${stats.minBatteryLevel < this.boidSystem.config.returnThreshold ? '#fa0' : '#0ff'}">avg ${(stats.avgBatteryLevel * 100).toFixed(0)}% · min ${(stats.minBatteryLevel * 100).toFixed(0)}%</span></div>
+      <div>Returning / Landed: <span style="color: #0ff">${stats.returningCount} / ${stats.landedCount}</span></div>
+      <div>Endurance: <span style="color: #0ff">${(stats.endurance / 60).toFixed(1)} min</span></div>` : ''}
+      ${this.boidSystem.config.usePerception ? `
+      <div>Packet Loss: <span style="color: #0ff">${(stats.packetLossRate * 100).toFixed(1)}%</span> · Unknown: <span style="color: #0ff">${(stats.unknownNeighborRate * 100).toFixed(1)}%</span></div>
+      <div>Neighbor Age: <span style="color: #0ff">${(stats.neighborStateAge * 1000).toFixed(0)} ms</span> · GPS RMS: <span style="color: #0ff">${stats.gpsErrorRms.toFixed(2)} m</span></div>` : ''}
+      ${stats.targetTrackingError > 0 ? `
+      <div>Target Tracking Error: <span style="color: #0ff">${stats.targetTrackingError.toFixed(2)} m</span></div>` : ''}
+      ${this.boidSystem.config.useWind ? `
+      <div>Wind at Drones: <span style="color: #0ff">avg ${stats.windSpeedAvg.toFixed(1)} · max ${stats.windSpeedMax.toFixed(1)} m/s</span></div>` : ''}
+      ${this.storyWarning ? `<div style="color: #f55; max-width: 260px;">⚠️ ${this.storyWarning}</div>` : ''}
+      ${this.boidSystem.config.collisionDetection ? `
+      <div>Collisions: <span style="color: ${stats.activeCollisions > 0 ? '#f55' : '#0ff'}">${stats.activeCollisions} now</span> (total ${stats.collisionEvents})</div>
+      <div>Near Misses: <span style="color: ${stats.activeNearMisses > 0 ? '#fa0' : '#0ff'}">${stats.activeNearMisses} now</span> (total ${stats.nearMissEvents})</div>
+      <div>Min Separation: <span style="color: #0ff">${Number.isFinite(stats.minSeparation) ? stats.minSeparation.toFixed(2) + ' m' : '-'}</span></div>
+      ${stats.lastSafetyEvent ? `<div style="color: #aaa;">Last: ${stats.lastSafetyEvent.kind} #${stats.lastSafetyEvent.idA}/#${stats.lastSafetyEvent.idB} at ${stats.lastSafetyEvent.time.toFixed(1)}s${stats.lastSafetyEvent.scene ? ' (' + stats.lastSafetyEvent.scene + ')' : ''}</div>` : ''}` : ''}
+      ${this.boidSystem.config.geofences.length > 0 ? `
+      <div>Geofence Breaches: <span style="color: ${stats.geofenceBreaches > 0 ? '#fa0' : '#0ff'}">${stats.geofenceBreaches} now</span> (total ${stats.geofenceBreachEvents})</div>
+      ${stats.lastGeofenceBreach ? `<div style="color: #aaa;">Last: #${stats.lastGeofenceBreach.id} ${stats.lastGeofenceBreach.kind === 'exclusion' ? 'in' : 'outside'} ${stats.lastGeofenceBreach.zone} at ${stats.lastGeofenceBreach.time.toFixed(1)}s</div>` : ''}` : ''}
+      ${stats.failedDrones > 0 || stats.formationReport.length > 0 ? `
+      <div>Failed Drones: <span style="color: ${stats.failedDrones > 0 ? '#fa0' : '#0ff'}">${stats.failedDrones}</span>${stats.lastFault ? ` <span style="color: #aaa;">(last: ${stats.lastFault.type} #${stats.lastFault.id} at ${stats.lastFault.time.toFixed(1)}s)</span>` : ''}</div>
+      ${stats.formationReport.map(r => `
+      <div style="color: #aaa;">${r.scene}: ${(r.inFormation * 100).toFixed(0)}% in formation · max leg ${r.travelMax.toFixed(0)} m${r.transitionTime > 0 ? ` · transition ${r.transitionTime.toFixed(1)}s${r.transitionConflicts > 0 ? ` (${r.transitionConflicts} unresolved)` : ''}${r.crowdedSlots > 0 ? ` · ${r.crowdedSlots} points too close` : ''}` : ''}${r.failed > 0 || r.unfilled > 0 ? ` · ${r.unfilled}/${r.slots} unfilled · ${r.failed} failed · ${r.backfilled} backfilled` : ''}</div>`).join('')}` : ''}
+      <div>Saturated: <span style="color: ${stats.saturatedAcceleration + stats.saturatedThrust > 0 ? '#fa0' : '#0ff'}">accel ${stats.saturatedAcceleration} · thrust ${stats.saturatedThrust} · speed ${stats.saturatedSpeed} · yaw ${stats.saturatedYaw}</span></div>
     `;
+
+        const config = this.boidSystem.config;
+        this.analyticsPanel.setVisible(config.showAnalytics);
+        this.analyticsPanel.setRightOffset(this.statsElement.offsetWidth + 20);
+        this.analyticsPanel.update(stats.metrics, config.metricsHistoryLength);
+    }
+
+    /**
+     * Rebuild the per-field editors
+     */
+    private refreshForceFieldList(): void {
+        [...this.forceFieldList.folders].forEach(folder => folder.destroy());
+        for (const field of this.boidSystem.forceFields) {
+            const folder = this.forceFieldList.addFolder(`${field.kind} #${field.id}`);
+            const onChange = () => this.onForceFieldsEdited();
+            folder.add(field, 'radius', 10, 500, 10).name('Radius').onChange(onChange);
+            folder.add(field, 'strength', 0, 5, 0.1).name('Strength').onChange(onChange);
+            folder.add(field.position, 'x', -500, 500, 1).name('X').onChange(onChange).listen();
+            folder.add(field.position, 'y', 0, 800, 1).name('Y').onChange(onChange).listen();
+            folder.add(field.position, 'z', -500, 500, 1).name('Z').onChange(onChange).listen();
+            folder.add({
+                remove: () => {
+                    this.boidSystem.removeForceField(field.id);
+                    this.onForceFieldsEdited();
+                }
+            }, 'remove').name('🗑 Remove');
+        }
+    }
+
+    /**
+     * Rebuild the per-group editors
+     */
+    private refreshGroupProfileList(): void {
+        [...this.groupProfileList.folders].forEach(folder => folder.destroy());
+        const regroup = () => this.boidSystem.assignGroups();
+        for (const profile of this.boidSystem.config.groupProfiles) {
+            const folder = this.groupProfileList.addFolder(profile.name);
+            folder.add(profile, 'name').name('Name').onFinishChange((name: string) => folder.title(name));
+            folder.add(profile, 'share', 0, 10, 0.1).name('Share').onChange(regroup);
+            folder.addColor(profile, 'color').name('Color').onChange(regroup);
+            folder.add(profile, 'separationWeight', 0, 5, 0.1).name('Separation Weight');
+            folder.add(profile, 'alignmentWeight', 0, 5, 0.1).name('Alignment Weight');
+            folder.add(profile, 'cohesionWeight', 0, 5, 0.1).name('Cohesion Weight');
+            folder.add(profile, 'separationDistance', 5, 100, 5).name('Separation Distance');
+            folder.add(profile, 'alignmentDistance', 10, 200, 10).name('Alignment Distance');
+            folder.add(profile, 'cohesionDistance', 10, 200, 10).name('Cohesion Distance');
+            folder.add(profile, 'maxSpeed', 1, 100, 1).name('Max Speed (m/s)');
+            folder.add(profile, 'maxForce', 1, 100, 1).name('Max Steering Force (m/s²)');
+            folder.add({
+                remove: () => {
+                    const profiles = this.boidSystem.config.groupProfiles;
+                    profiles.splice(profiles.indexOf(profile), 1);
+                    this.onGroupProfilesEdited();
+                }
+            }, 'remove').name('🗑 Remove');
+            folder.close();
+        }
+    }
+
+    /**
+     * Rebuild the per-zone editors. Polygon vertices are edited through the
+     * configuration file; the editors cover names, altitudes and cylinders.
+     */
+    private refreshGeofenceList(): void {
+        [...this.geofenceList.folders].forEach(folder => folder.destroy());
+        const zones = this.boidSystem.config.geofences;
+        for (const zone of zones) {
+            const folder = this.geofenceList.addFolder(`${zone.kind === 'inclusion' ? '✅' : '⛔'} ${zone.name}`);
+            folder.add(zone, 'name').name('Name');
+            folder.add(zone, 'floor', 0, 800, 5).name('Floor (m)');
+            folder.add(zone, 'ceiling', 0, 800, 5).name('Ceiling (m)');
+            if (zone.shape === 'cylinder') {
+                folder.add(zone.center, '0', -500, 500, 5).name('Center X');
+                folder.add(zone.center, '1', -500, 500, 5).name('Center Z');
+                folder.add(zone, 'radius', 5, 300, 5).name('Radius (m)');
+            }
+            folder.add({
+                remove: () => {
+                    zones.splice(zones.indexOf(zone), 1);
+                    this.onGeofencesEdited();
+                }
+            }, 'remove').name('🗑 Remove');
+            folder.close();
+        }
+    }
+
+    /**
+     * Rebuild the zone editors and mirror the zones to the worker
+     */
+    private onGeofencesEdited(): void {
+        this.refreshGeofenceList();
+        this.worker?.syncConfig();
+    }
+
+    /**
+     * Regroup the swarm and rebuild the editors after profiles were added or removed
+     */
+    private onGroupProfilesEdited(): void {
+        this.boidSystem.assignGroups();
+        this.refreshGroupProfileList();
+        this.worker?.syncConfig();
+    }
+
+    /**
+     * Push force field edits to the markers, the worker and the editor list
+     */
+    private onForceFieldsEdited(): void {
+        this.scene.syncForceFieldMeshes();
+        this.scene.onForceFieldsChanged?.();
     }
 
     /**
@@ -323,6 +816,60 @@ export class Controls {
         console.log('Configuration exported');
     }
 
+    /**
+     * Download the collision / near-miss log as CSV
+     */
+    private async exportSafetyLog(): Promise<void> {
+        try {
+            const csv = this.worker ? await this.worker.getSafetyLog() : this.boidSystem.safety.toCSV();
+            const blob = new Blob([csv], { type: 'text/csv' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `safety-log-${Date.now()}.csv`;
+            a.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Safety log export failed:', error);
+        }
+    }
+
+    /**
+     * Download the geofence breach log as CSV
+     */
+    private async exportGeofenceLog(): Promise<void> {
+        try {
+            const csv = this.worker ? await this.worker.getGeofenceLog() : this.boidSystem.geofence.toCSV();
+            const blob = new Blob([csv], { type: 'text/csv' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `geofence-log-${Date.now()}.csv`;
+            a.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Geofence log export failed:', error);
+        }
+    }
+
+    /**
+     * Download the swarm metric history as CSV
+     */
+    private async exportMetrics(): Promise<void> {
+        try {
+            const csv = this.worker ? await this.worker.getMetricsLog() : this.boidSystem.metrics.toCSV();
+            const blob = new Blob([csv], { type: 'text/csv' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `swarm-metrics-${Date.now()}.csv`;
+            a.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Metrics export failed:', error);
+        }
+    }
+
     /**
      * Import configuration
      */
@@ -337,7 +884,10 @@ export class Controls {
                 reader.onload = (event) => {
                     const json = event.target?.result as string;
                     this.boidSystem.importConfig(json);
+                    this.refreshGroupProfileList();
+                    this.refreshGeofenceList();
                     this.gui.controllersRecursive().forEach(controller => controller.updateDisplay());
+                    this.worker?.syncConfig();
                     console.log('Configuration imported');
                 };
                 reader.readAsText(file);
@@ -352,6 +902,7 @@ export class Controls {
     destroy(): void {
         this.gui.destroy();
         this.statsElement.remove();
+        this.analyticsPanel.destroy();
     }
 }
 
@@ -0,0 +1,204 @@
+import { BoidBuffers } from './BoidBuffers';
+import { BoidConfig } from './BoidConfig';
+
+// Gravitational acceleration (m/s²)
+export const GRAVITY = 9.81;
+
+/**
+ * Point-mass quadrotor model.
+ *
+ * Steering output is treated as a commanded acceleration. The model limits it
+ * (horizontal / vertical acceleration, thrust-to-weight, no downward thrust),
+ * lets the actual rotor thrust follow the command with a first-order lag,
+ * adds gravity and quadratic drag (relative to the wind when enabled), then applies horizontal / climb / descent
+ * speed limits and turns the heading toward the direction of travel at a
+ * limited yaw rate.
+ *
+ * Per-drone state lives in BoidBuffers (`thrusts` as specific thrust in m/s²,
+ * `headings` in radians). Counters record how many drones hit each limit in the
+ * current step, so a show can be checked for physically flyable transitions.
+ */
+export class DroneDynamics {
+    // Drones that hit each limit during the current step
+    saturation = {
+        acceleration: 0,    // Commanded acceleration clipped
+        thrust: 0,          // Rotor thrust at its limit
+        speed: 0,           // Horizontal or vertical speed clipped
+        yaw: 0              // Heading turning at the yaw rate limit
+    };
+
+    /**
+     * Clear the saturation counters before a step
+     */
+    beginStep(): void {
+        this.saturation.acceleration = 0;
+        this.saturation.thrust = 0;
+        this.saturation.speed = 0;
+        this.saturation.yaw = 0;
+    }
+
+    /**
+     * Advance the velocity of slot `index` by `dt` seconds, tracking the
+     * commanded acceleration stored in `buffers.accelerations`
+     */
+    integrate(buffers: BoidBuffers, index: number, config: BoidConfig, dt: number): void {
+        const vel = buffers.velocities;
+        const acc = buffers.accelerations;
+        const thrust = buffers.thrusts;
+        const i = index * 3;
+
+        // 1. Limit the commanded acceleration
+        let ax = acc[i];
+        let ay = acc[i + 1];
+        let az = acc[i + 2];
+        let accelLimited = false;
+
+        const horizontal = Math.sqrt(ax * ax + az * az);
+        if (horizontal > config.maxHorizontalAcceleration) {
+            const s = config.maxHorizontalAcceleration / horizontal;
+            ax *= s;
+            az *= s;
+            accelLimited = true;
+        }
+        if (Math.abs(ay) > config.maxVerticalAcceleration) {
+            ay = Math.sign(ay) * config.maxVerticalAcceleration;
+            accelLimited = true;
+        }
+        if (accelLimited) this.saturation.acceleration++;
+
+        // 2. Quadratic drag, as an acceleration opposing the velocity relative to the air
+        let vx = vel[i];
+        let vy = vel[i + 1];
+        let vz = vel[i + 2];
+        let rx = vx;
+        let ry = vy;
+        let rz = vz;
+        if (config.useWind) {
+            rx -= buffers.winds[i];
+            ry -= buffers.winds[i + 1];
+            rz -= buffers.winds[i + 2];
+        }
+        const k = config.dragCoefficient / config.droneMass * Math.sqrt(rx * rx + ry * ry + rz * rz);
+        const dragX = -k * rx;
+        const dragY = -k * ry;
+        const dragZ = -k * rz;
+
+        // 3. Specific thrust needed for the command: thrust = a - gravity - drag
+        let tx = ax - dragX;
+        let ty = ay + GRAVITY - dragY;
+        let tz = az - dragZ;
+        let thrustLimited = false;
+
+        // Rotors cannot pull downward
+        if (ty < 0) {
+            ty = 0;
+            thrustLimited = true;
+        }
+        // Thrust magnitude limit; altitude control gets priority over horizontal motion
+        const maxThrust = config.thrustToWeight * GRAVITY;
+        if (tx * tx + ty * ty + tz * tz > maxThrust * maxThrust) {
+            thrustLimited = true;
+            if (ty >= maxThrust) {
+                ty = maxThrust;
+                tx = 0;
+                tz = 0;
+            } else {
+                const s = Math.sqrt((maxThrust * maxThrust - ty * ty) / (tx * tx + tz * tz));
+                tx *= s;
+                tz *= s;
+            }
+        }
+        if (thrustLimited) this.saturation.thrust++;
+
+        // 4. Actual thrust follows the command with the attitude response lag
+        const blend = config.thrustResponseTime > 0 ? 1 - Math.exp(-dt / config.thrustResponseTime) : 1;
+        thrust[i] += (tx - thrust[i]) * blend;
+        thrust[i + 1] += (ty - thrust[i + 1]) * blend;
+        thrust[i + 2] += (tz - thrust[i + 2]) * blend;
+
+        // 5. Integrate: thrust + gravity + drag
+        vx += (thrust[i] + dragX) * dt;
+        vy += (thrust[i + 1] - GRAVITY + dragY) * dt;
+        vz += (thrust[i + 2] + dragZ) * dt;
+
+        // 6. Speed limits
+        let speedLimited = false;
+        const maxHorizontal = Math.min(config.maxHorizontalSpeed, config.maxSpeed);
+        const horizontalSpeed = Math.sqrt(vx * vx + vz * vz);
+        if (horizontalSpeed > maxHorizontal) {
+            const s = maxHorizontal / horizontalSpeed;
+            vx *= s;
+            vz *= s;
+            speedLimited = true;
+        }
+        if (vy > config.maxClimbRate) {
+            vy = config.maxClimbRate;
+            speedLimited = true;
+        } else if (vy < -config.maxDescentRate) {
+            vy = -config.maxDescentRate;
+            speedLimited = true;
+        }
+        if (speedLimited) this.saturation.speed++;
+
+        vel[i] = vx;
+        vel[i + 1] = vy;
+        vel[i + 2] = vz;
+
+        // 7. Yaw toward the direction of travel
+        if (horizontalSpeed > 0.5) {
+            const heading = buffers.headings[index];
+            let delta = Math.atan2(vx, vz) - heading;
+            delta = Math.atan2(Math.sin(delta), Math.cos(delta));
+            const maxTurn = config.maxYawRate * (Math.PI / 180) * dt;
+            if (Math.abs(delta) > maxTurn) {
+                delta = Math.sign(delta) * maxTurn;
+                this.saturation.yaw++;
+            }
+            const next = heading + delta;
+            buffers.headings[index] = next > Math.PI ? next - 2 * Math.PI : next < -Math.PI ? next + 2 * Math.PI : next;
+        }
+    }
+
+    /**
+     * Put slot `index` into steady hover, facing its direction of travel
+     */
+    static resetState(buffers: BoidBuffers, index: number): void {
+        const i = index * 3;
+        buffers.thrusts[i] = 0;
+        buffers.thrusts[i + 1] = GRAVITY;
+        buffers.thrusts[i + 2] = 0;
+        buffers.headings[index] = Math.atan2(buffers.velocities[i], buffers.velocities[i + 2]);
+    }
+
+    /**
+     * Shortest rest-to-rest time to cover `distance` with a speed and an
+     * acceleration limit (trapezoidal, or triangular if top speed is never reached)
+     */
+    static minTravelTime(distance: number, maxSpeed: number, maxAcceleration: number): number {
+        if (distance <= 0) return 0;
+        const rampDistance = maxSpeed * maxSpeed / maxAcceleration;
+        if (distance <= rampDistance) {
+            return 2 * Math.sqrt(distance / maxAcceleration);
+        }
+        return distance / maxSpeed + maxSpeed / maxAcceleration;
+    }
+
+    /**
+     * Shortest rest-to-rest time for a move of (dx, dy, dz) meters under the
+     * configured limits. Horizontal and vertical motion are limited separately,
+     * so the slower of the two decides.
+     */
+    static minTransitionTime(dx: number, dy: number, dz: number, config: BoidConfig): number {
+        const horizontal = DroneDynamics.minTravelTime(
+            Math.sqrt(dx * dx + dz * dz),
+            Math.min(config.maxHorizontalSpeed, config.maxSpeed),
+            config.maxHorizontalAcceleration
+        );
+        const vertical = DroneDynamics.minTravelTime(
+            Math.abs(dy),
+            dy > 0 ? config.maxClimbRate : config.maxDescentRate,
+            config.maxVerticalAcceleration
+        );
+        return Math.max(horizontal, vertical);
+    }
+}
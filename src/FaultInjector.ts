@@ -0,0 +1,177 @@
+import { Vector3 } from 'three';
+import { Boid } from './Boid';
+import { BoidBuffers } from './BoidBuffers';
+import { BoidConfig } from './BoidConfig';
+import { BatteryModel } from './Battery';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Injectable drone failures:
+ * - 'kill':   motors cut to a controlled emergency descent, LED off
+ * - 'freeze': stops responding and hangs in place, LED still on
+ * - 'drift':  stops responding and drifts off sideways (e.g. bad GPS), LED still on
+ * - 'ledOff': flies fine but the LED is dead, so it flies home and lands
+ */
+export type FaultType = 'kill' | 'freeze' | 'drift' | 'ledOff';
+
+/**
+ * A fault planned for simulation time `time` (seconds since the swarm was
+ * initialized). `id` null picks a random drone that is lit and flying.
+ */
+export interface ScheduledFault {
+    time: number;
+    type: FaultType;
+    id: number | null;
+}
+
+/**
+ * One injected fault
+ */
+export interface FaultEvent {
+    time: number;           // Simulation time (s)
+    id: number;             // Boid id
+    type: FaultType;
+    scene: string;          // Story scene at the time ('' outside the story)
+}
+
+/**
+ * How each story formation coped with failures
+ */
+export interface FormationReport {
+    scene: string;
+    slots: number;          // Formation points in the scene
+    failed: number;         // Performers that failed (or were removed) during the scene
+    backfilled: number;     // Failed slots taken over by a spare
+    unfilled: number;       // Most formation points empty at the same time
+    inFormation: number;    // Share of formation points held within formationTolerance (0-1, latest step)
+    travelTotal: number;    // Planned straight-line travel of all performers to their points at the scene change (m)
+    travelMax: number;      // Longest single leg of that plan (m)
+    transitionTime: number; // Shortest conflict-free transition TransitionPlanner found (s, 0 when not planned)
+    transitionConflicts: number; // Drones the planner could not keep separated
+    crowdedSlots: number;   // Formation points closer than nearMissRadius to another (planned scenes only)
+}
+
+// Drift speed of a drone with a 'drift' fault (m/s)
+const DRIFT_SPEED = 3;
+
+interface ActiveFault {
+    boid: Boid;
+    type: FaultType;
+    time: number;
+    drift: Vector3;
+}
+
+/**
+ * Injects failures into the swarm, now or on a schedule, and flies the failed
+ * drones down. Frozen and drifting drones keep misbehaving for
+ * `config.faultFailsafeDelay` seconds before their failsafe makes them descend
+ * where they are. Every failed drone ends up landed.
+ *
+ * Listeners (e.g. the StoryController) are told about each fault before the
+ * drone's story target is cleared, so they can hand its slot to a spare.
+ */
+export class FaultInjector {
+    events: FaultEvent[] = [];
+
+    private pending: ScheduledFault[] = [];
+    private active: ActiveFault[] = [];
+    private listeners: ((boid: Boid, type: FaultType) => void)[] = [];
+    private rng = new SeededRandom();
+
+    /**
+     * Clear faults and re-arm `config.faultSchedule`, e.g. when the swarm is rebuilt
+     */
+    reset(config: BoidConfig): void {
+        this.events = [];
+        this.active = [];
+        this.pending = config.faultSchedule.map(f => ({ ...f }));
+        this.pending.sort((a, b) => a.time - b.time);
+        this.rng = SeededRandom.derive(config.seed, 4);
+    }
+
+    /**
+     * Call `listener` whenever a drone fails
+     */
+    onFault(listener: (boid: Boid, type: FaultType) => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Plan a fault at simulation time `time`
+     */
+    schedule(fault: ScheduledFault): void {
+        const at = this.pending.findIndex(f => f.time > fault.time);
+        this.pending.splice(at === -1 ? this.pending.length : at, 0, { ...fault });
+    }
+
+    /**
+     * Fail drone `id` (or a random lit, flying drone if null) right now.
+     * Returns the failed Boid, or null if there was none to fail.
+     */
+    inject(boids: Boid[], type: FaultType, id: number | null, time: number, scene: string): Boid | null {
+        let boid: Boid | undefined;
+        if (id === null) {
+            const candidates = boids.filter(b =>
+                !b.fault && b.energyState === 'flying' && b.isVisible && b.lightIntensity > 0);
+            boid = candidates[Math.floor(this.rng.next() * candidates.length)];
+        } else {
+            boid = boids.find(b => b.id === id);
+        }
+        if (!boid || boid.fault || boid.energyState === 'landed') return null;
+
+        boid.fault = type;
+        const drift = new Vector3();
+        if (type === 'drift') {
+            const angle = this.rng.next() * Math.PI * 2;
+            drift.set(Math.cos(angle) * DRIFT_SPEED, 0, Math.sin(angle) * DRIFT_SPEED);
+        }
+        this.active.push({ boid, type, time, drift });
+        this.events.push({ time, id: boid.id, type, scene });
+
+        for (const listener of this.listeners) listener(boid, type);
+        boid.storyTarget = null;
+
+        if (type === 'kill') {
+            boid.lightIntensity = 0;
+            boid.energyState = 'depleted';
+        } else if (type === 'ledOff') {
+            boid.lightIntensity = 0;
+            boid.energyState = 'returning';
+        }
+        return boid;
+    }
+
+    /**
+     * Fire due scheduled faults and advance the failed drones by one step
+     */
+    update(boids: Boid[], buffers: BoidBuffers, config: BoidConfig, time: number, scene: string): void {
+        while (this.pending.length > 0 && this.pending[0].time <= time) {
+            const fault = this.pending.shift()!;
+            this.inject(boids, fault.type, fault.id, time, scene);
+        }
+
+        this.active = this.active.filter(f => boids[f.boid.index] === f.boid);
+        for (const fault of this.active) {
+            const boid = fault.boid;
+            if (boid.energyState === 'flying') {
+                // Unresponsive until the failsafe takes over
+                if (fault.type === 'freeze') {
+                    boid.velocity.set(0, 0, 0);
+                } else if (fault.type === 'drift') {
+                    boid.velocity.copy(fault.drift);
+                }
+                if (time - fault.time >= config.faultFailsafeDelay) {
+                    boid.energyState = 'depleted';
+                }
+            }
+            BatteryModel.touchdown(boid, buffers, config);
+        }
+    }
+
+    /**
+     * Number of drones currently failed (landed ones included)
+     */
+    get failedCount(): number {
+        return this.active.length;
+    }
+}
@@ -0,0 +1,81 @@
+import { Vector3 } from 'three';
+
+/**
+ * - 'attractor': pulls the flock towards it
+ * - 'repeller':  a "predator" the flock flees from
+ * - 'vortex':    swirls the flock around its vertical axis
+ */
+export type ForceFieldKind = 'attractor' | 'repeller' | 'vortex';
+
+// Share of the vortex heading that points inwards, so drones orbit instead of flying off the tangent
+const VORTEX_INFLOW = 0.25;
+
+/**
+ * Point of interest the flock reacts to within `radius`. The reaction fades
+ * linearly from full `strength` at the center to nothing at the edge.
+ */
+export class ForceField {
+    id: number = -1;
+    kind: ForceFieldKind;
+    readonly position: Vector3;
+    radius: number;
+    strength: number;
+
+    constructor(kind: ForceFieldKind, position: Vector3, radius: number, strength: number) {
+        this.kind = kind;
+        this.position = position.clone();
+        this.radius = radius;
+        this.strength = strength;
+    }
+
+    /**
+     * Heading the field asks of a drone at `point`, as a unit vector in `out`.
+     * Returns the falloff (1 at the center, 0 at and beyond the radius).
+     */
+    heading(point: Vector3, out: Vector3): number {
+        out.subVectors(this.position, point);
+        const distance = out.length();
+        if (distance >= this.radius || distance < 1e-6) return 0;
+        const falloff = 1 - distance / this.radius;
+
+        switch (this.kind) {
+            case 'attractor':
+                out.divideScalar(distance);
+                break;
+            case 'repeller':
+                out.divideScalar(-distance);
+                break;
+            case 'vortex': {
+                // Clockwise seen from above, plus a little inflow
+                const dx = out.x;
+                const dz = out.z;
+                const horizontal = Math.sqrt(dx * dx + dz * dz);
+                if (horizontal < 1e-6) return 0;
+                out.set(dz + dx * VORTEX_INFLOW, 0, -dx + dz * VORTEX_INFLOW).normalize();
+                break;
+            }
+        }
+        return falloff;
+    }
+}
+
+export interface SerializedForceField {
+    kind: ForceFieldKind;
+    position: number[];
+    radius: number;
+    strength: number;
+}
+
+/**
+ * Convert a force field to plain data
+ */
+export function serializeForceField(field: ForceField): SerializedForceField {
+    return { kind: field.kind, position: field.position.toArray(), radius: field.radius, strength: field.strength };
+}
+
+/**
+ * Rebuild a force field from plain data
+ */
+export function deserializeForceField(data: SerializedForceField): ForceField {
+    return new ForceField(data.kind, new Vector3().fromArray(data.position), data.radius, data.strength);
+}
@@ -0,0 +1,222 @@
+import { Vector3 } from 'three';
+
+/**
+ * Drone-to-slot matching for a formation change
+ */
+export interface AssignmentResult {
+    slotOf: Int32Array;         // Slot per drone (-1 if it got none)
+    totalDistance: number;      // Sum of straight-line legs (m)
+    maxDistance: number;        // Longest leg (m)
+    exact: boolean;             // Solved in one Hungarian pass rather than by bisection
+}
+
+// Largest set (drones or slots) solved exactly; bisection leaves are cut to this size too
+export const EXACT_ASSIGNMENT_LIMIT = 200;
+
+/**
+ * Matches current drone positions to the points of the next formation.
+ *
+ * The cost of a leg is its squared length: minimizing the sum of squares keeps
+ * the total short, penalizes long legs and gives straight paths that do not cross.
+ * - Up to `exactLimit` drones and slots: the Hungarian algorithm (optimal, O(n³)).
+ * - Above: recursive median bisection of both point sets along their widest
+ *   axis down to `exactLimit`-sized blocks, each solved with the Hungarian algorithm.
+ * Either way a final pass swaps the longest leg with another drone while that
+ * shortens the longer of the two legs, to bring the maximum down.
+ *
+ * With more drones than slots the leftover drones get no slot; with more slots
+ * than drones some slots stay empty.
+ */
+export class FormationAssignment {
+    static assign(drones: readonly Vector3[], slots: readonly Vector3[], exactLimit = EXACT_ASSIGNMENT_LIMIT): AssignmentResult {
+        // A NaN or infinite cost would stall the Hungarian algorithm
+        if (!drones.every(isFinitePoint)) throw new Error('FormationAssignment: drone position is not finite');
+        if (!slots.every(isFinitePoint)) throw new Error('FormationAssignment: formation point is not finite');
+
+        const slotOf = new Int32Array(drones.length).fill(-1);
+        const exact = Math.max(drones.length, slots.length) <= exactLimit;
+        const droneIndices = drones.map((_, i) => i);
+        const slotIndices = slots.map((_, i) => i);
+
+        if (exact) {
+            solveBlock(drones, slots, droneIndices, slotIndices, slotOf);
+        } else {
+            bisect(drones, slots, droneIndices, slotIndices, Math.max(1, exactLimit), slotOf);
+        }
+        reduceBottleneck(drones, slots, slotOf);
+
+        return { ...FormationAssignment.measure(drones, slots, slotOf), slotOf, exact };
+    }
+
+    /**
+     * Travel of a given matching (e.g. drone i to slot i, for comparison)
+     */
+    static measure(drones: readonly Vector3[], slots: readonly Vector3[], slotOf: ArrayLike<number>): { totalDistance: number; maxDistance: number } {
+        let totalDistance = 0;
+        let maxDistance = 0;
+        for (let i = 0; i < drones.length; i++) {
+            if (slotOf[i] < 0) continue;
+            const d = drones[i].distanceTo(slots[slotOf[i]]);
+            totalDistance += d;
+            maxDistance = Math.max(maxDistance, d);
+        }
+        return { totalDistance, maxDistance };
+    }
+}
+
+/**
+ * Split both sets at the slots' median along the widest axis, keeping the
+ * same drone-to-slot ratio on each side, until the blocks are small enough
+ */
+function bisect(
+    drones: readonly Vector3[], slots: readonly Vector3[],
+    droneIndices: number[], slotIndices: number[],
+    limit: number, slotOf: Int32Array
+): void {
+    if (droneIndices.length === 0 || slotIndices.length === 0) return;
+    if (Math.max(droneIndices.length, slotIndices.length) <= limit) {
+        solveBlock(drones, slots, droneIndices, slotIndices, slotOf);
+        return;
+    }
+
+    const min = new Vector3(Infinity, Infinity, Infinity);
+    const max = new Vector3(-Infinity, -Infinity, -Infinity);
+    for (const i of droneIndices) { min.min(drones[i]); max.max(drones[i]); }
+    for (const j of slotIndices) { min.min(slots[j]); max.max(slots[j]); }
+    const extent = max.sub(min);
+    const axis = extent.x >= extent.y && extent.x >= extent.z ? 'x' : extent.y >= extent.z ? 'y' : 'z';
+
+    droneIndices.sort((a, b) => drones[a][axis] - drones[b][axis]);
+    slotIndices.sort((a, b) => slots[a][axis] - slots[b][axis]);
+    const slotSplit = Math.floor(slotIndices.length / 2);
+    const droneSplit = Math.round(droneIndices.length * slotSplit / slotIndices.length);
+
+    bisect(drones, slots, droneIndices.slice(0, droneSplit), slotIndices.slice(0, slotSplit), limit, slotOf);
+    bisect(drones, slots, droneIndices.slice(droneSplit), slotIndices.slice(slotSplit), limit, slotOf);
+}
+
+/**
+ * Optimal matching of one block (sum of squared distances)
+ */
+function solveBlock(
+    drones: readonly Vector3[], slots: readonly Vector3[],
+    droneIndices: readonly number[], slotIndices: readonly number[],
+    slotOf: Int32Array
+): void {
+    if (droneIndices.length === 0 || slotIndices.length === 0) return;
+
+    // The Hungarian solver needs rows <= columns
+    if (slotIndices.length <= droneIndices.length) {
+        const droneOfSlot = hungarian(slotIndices.length, droneIndices.length,
+            (r, c) => slots[slotIndices[r]].distanceToSquared(drones[droneIndices[c]]));
+        droneOfSlot.forEach((c, r) => slotOf[droneIndices[c]] = slotIndices[r]);
+    } else {
+        const slotOfDrone = hungarian(droneIndices.length, slotIndices.length,
+            (r, c) => drones[droneIndices[r]].distanceToSquared(slots[slotIndices[c]]));
+        slotOfDrone.forEach((c, r) => slotOf[droneIndices[r]] = slotIndices[c]);
+    }
+}
+
+/**
+ * Hungarian algorithm (shortest augmenting paths with potentials) for a
+ * rows x columns cost matrix, rows <= columns. Returns the column of each row.
+ */
+function hungarian(rows: number, columns: number, cost: (row: number, column: number) => number): Int32Array {
+    // 1-based, column 0 is the virtual start of each augmenting path
+    const u = new Float64Array(rows + 1);
+    const v = new Float64Array(columns + 1);
+    const rowOf = new Int32Array(columns + 1);
+    const way = new Int32Array(columns + 1);
+    const minv = new Float64Array(columns + 1);
+    const used = new Uint8Array(columns + 1);
+
+    for (let i = 1; i <= rows; i++) {
+        rowOf[0] = i;
+        let j0 = 0;
+        minv.fill(Infinity);
+        used.fill(0);
+        do {
+            used[j0] = 1;
+            const i0 = rowOf[j0];
+            let delta = Infinity;
+            let j1 = 0;
+            for (let j = 1; j <= columns; j++) {
+                if (used[j]) continue;
+                const reduced = cost(i0 - 1, j - 1) - u[i0] - v[j];
+                if (reduced < minv[j]) {
+                    minv[j] = reduced;
+                    way[j] = j0;
+                }
+                if (minv[j] < delta) {
+                    delta = minv[j];
+                    j1 = j;
+                }
+            }
+            if (j1 === 0) throw new Error('FormationAssignment: no augmenting path (costs must be finite)');
+            for (let j = 0; j <= columns; j++) {
+                if (used[j]) {
+                    u[rowOf[j]] += delta;
+                    v[j] -= delta;
+                } else {
+                    minv[j] -= delta;
+                }
+            }
+            j0 = j1;
+        } while (rowOf[j0] !== 0);
+        // Flip the augmenting path
+        do {
+            const j1 = way[j0];
+            rowOf[j0] = rowOf[j1];
+            j0 = j1;
+        } while (j0 !== 0);
+    }
+
+    const columnOf = new Int32Array(rows);
+    for (let j = 1; j <= columns; j++) {
+        if (rowOf[j] > 0) columnOf[rowOf[j] - 1] = j - 1;
+    }
+    return columnOf;
+}
+
+/**
+ * Repeatedly give the drone with the longest leg the swap (with an assigned
+ * drone, or with an idle one taking over its slot) that most shortens the
+ * longer leg of the pair. Stops when no swap helps.
+ */
+function reduceBottleneck(drones: readonly Vector3[], slots: readonly Vector3[], slotOf: Int32Array): void {
+    for (let iteration = 0; iteration < drones.length; iteration++) {
+        let a = -1;
+        let longest = 0;
+        for (let i = 0; i < drones.length; i++) {
+            if (slotOf[i] < 0) continue;
+            const d = drones[i].distanceToSquared(slots[slotOf[i]]);
+            if (d > longest) {
+                longest = d;
+                a = i;
+            }
+        }
+        if (a === -1) return;
+
+        const slotA = slotOf[a];
+        let best = -1;
+        let bestMax = longest;
+        for (let b = 0; b < drones.length; b++) {
+            if (b === a) continue;
+            const slotB = slotOf[b];
+            const toA = drones[b].distanceToSquared(slots[slotA]);
+            const pairMax = slotB < 0 ? toA : Math.max(toA, drones[a].distanceToSquared(slots[slotB]));
+            if (pairMax < bestMax) {
+                bestMax = pairMax;
+                best = b;
+            }
+        }
+        if (best === -1) return;
+
+        slotOf[a] = slotOf[best];
+        slotOf[best] = slotA;
+    }
+}
+
+function isFinitePoint(p: Vector3): boolean {
+    return Number.isFinite(p.x) && Number.isFinite(p.y) && Number.isFinite(p.z);
+}
@@ -0,0 +1,249 @@
+import { Vector3 } from 'three';
+import { Boid } from './Boid';
+import { BoidConfig } from './BoidConfig';
+
+/**
+ * - 'inclusion': drones must stay inside (e.g. the permitted venue airspace)
+ * - 'exclusion': drones must stay out (a no-fly zone)
+ */
+export type GeofenceKind = 'inclusion' | 'exclusion';
+
+interface GeofenceBase {
+    name: string;
+    kind: GeofenceKind;
+    floor: number;              // Lowest permitted / restricted altitude (m)
+    ceiling: number;            // Highest permitted / restricted altitude (m)
+}
+
+/**
+ * Vertical prism over a ground polygon
+ */
+export interface PolygonGeofence extends GeofenceBase {
+    shape: 'polygon';
+    points: number[][];         // [x, z] vertices, in order (either winding)
+}
+
+/**
+ * Vertical cylinder
+ */
+export interface CylinderGeofence extends GeofenceBase {
+    shape: 'cylinder';
+    center: number[];           // [x, z]
+    radius: number;
+}
+
+/**
+ * Geofence zone. Plain data, so zones live in BoidConfig.geofences and
+ * travel with exportConfig / importConfig and to the worker.
+ */
+export type GeofenceZone = PolygonGeofence | CylinderGeofence;
+
+/**
+ * Signed depth of a point in a zone: positive inside (distance to the nearest
+ * wall, floor or ceiling), negative outside (distance to the zone). The
+ * outward normal of the nearest boundary is written to `outNormal`.
+ */
+export function zoneDepth(zone: GeofenceZone, x: number, y: number, z: number, outNormal: Vector3): number {
+    // Horizontal: distance to the nearest wall and the direction out through it
+    let wall: number;
+    let nx: number;
+    let nz: number;
+    let insideHorizontally: boolean;
+
+    if (zone.shape === 'cylinder') {
+        const dx = x - zone.center[0];
+        const dz = z - zone.center[1];
+        const r = Math.sqrt(dx * dx + dz * dz);
+        wall = Math.abs(zone.radius - r);
+        nx = r > 1e-6 ? dx / r : 1;
+        nz = r > 1e-6 ? dz / r : 0;
+        insideHorizontally = r <= zone.radius;
+    } else {
+        const points = zone.points;
+        let bestSq = Infinity;
+        let cx = x;
+        let cz = z;
+        insideHorizontally = false;
+        for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+            const [ax, az] = points[j];
+            const [bx, bz] = points[i];
+            // Crossing test for containment
+            if ((bz > z) !== (az > z) && x < ax + (z - az) / (bz - az) * (bx - ax)) {
+                insideHorizontally = !insideHorizontally;
+            }
+            // Closest point on the edge
+            const ex = bx - ax;
+            const ez = bz - az;
+            const lengthSq = ex * ex + ez * ez;
+            const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * ex + (z - az) * ez) / lengthSq)) : 0;
+            const px = ax + ex * t;
+            const pz = az + ez * t;
+            const distSq = (x - px) * (x - px) + (z - pz) * (z - pz);
+            if (distSq < bestSq) {
+                bestSq = distSq;
+                cx = px;
+                cz = pz;
+            }
+        }
+        wall = Math.sqrt(bestSq);
+        const sign = insideHorizontally ? 1 : -1;
+        nx = wall > 1e-6 ? sign * (cx - x) / wall : 0;
+        nz = wall > 1e-6 ? sign * (cz - z) / wall : 0;
+    }
+
+    const below = zone.floor - y;
+    const above = y - zone.ceiling;
+    const insideVertically = below <= 0 && above <= 0;
+
+    if (insideHorizontally && insideVertically) {
+        // Leave through whichever of wall, floor and ceiling is closest
+        const vertical = Math.min(-below, -above);
+        if (vertical < wall) {
+            outNormal.set(0, -below < -above ? -1 : 1, 0);
+            return vertical;
+        }
+        outNormal.set(nx, 0, nz);
+        return wall;
+    }
+
+    // Outside: distance to the prism, combining the horizontal and vertical gaps
+    const h = insideHorizontally ? 0 : wall;
+    const v = Math.max(below, above, 0);
+    const distance = Math.sqrt(h * h + v * v);
+    // Normal points out of the zone, i.e. from the zone towards the point
+    outNormal.set(nx * h, below > 0 ? -v : v, nz * h);
+    if (distance > 1e-6) outNormal.divideScalar(distance);
+    return -distance;
+}
+
+/**
+ * One hard geofence breach
+ */
+export interface GeofenceBreach {
+    time: number;               // Simulation time (s)
+    id: number;                 // Boid id
+    zone: string;               // Zone breached (the nearest inclusion zone when outside all of them)
+    kind: GeofenceKind;
+    depth: number;              // How far into the no-fly zone / out of the permitted airspace (m)
+    scene: string;              // Story scene at the time ('' outside the story)
+}
+
+const _normal = new Vector3();
+
+/**
+ * Detects drones that are inside an exclusion zone or, when inclusion zones
+ * exist, outside all of them. Landed drones are not checked.
+ *
+ * A drone is logged once when it enters a breach (or moves into a different
+ * zone's breach), not on every step it stays there. The log keeps the newest
+ * `safetyLogLimit` breaches; the total counts every breach.
+ */
+export class GeofenceMonitor {
+    events: GeofenceBreach[] = [];
+    totalBreaches = 0;
+    activeBreaches = 0;         // Drones in breach at the last check
+
+    /**
+     * Clear the log and totals
+     */
+    reset(): void {
+        this.events = [];
+        this.totalBreaches = 0;
+        this.activeBreaches = 0;
+    }
+
+    /**
+     * Check every drone against the zones in `config.geofences`.
+     * Sets `geofenceBreach` on each Boid (the zone name, or null).
+     */
+    check(boids: Boid[], config: BoidConfig, time: number, scene: string): void {
+        const zones = config.geofences;
+        let active = 0;
+
+        for (const boid of boids) {
+            const breach = zones.length > 0 && boid.energyState !== 'landed'
+                ? this.findBreach(boid, zones)
+                : null;
+            if (!breach) {
+                boid.geofenceBreach = null;
+                continue;
+            }
+
+            active++;
+            if (boid.geofenceBreach !== breach.zone.name) {
+                this.log({
+                    time,
+                    id: boid.id,
+                    zone: breach.zone.name,
+                    kind: breach.zone.kind,
+                    depth: breach.depth,
+                    scene
+                }, config.safetyLogLimit);
+            }
+            boid.geofenceBreach = breach.zone.name;
+        }
+
+        this.activeBreaches = active;
+    }
+
+    /**
+     * Breach log as CSV (one row per breach, oldest first)
+     */
+    toCSV(): string {
+        const rows = ['time,id,zone,kind,depth,scene'];
+        for (const e of this.events) {
+            rows.push(`${e.time.toFixed(3)},${e.id},${e.zone},${e.kind},${e.depth.toFixed(2)},${e.scene}`);
+        }
+        return rows.join('\n');
+    }
+
+    private findBreach(boid: Boid, zones: readonly GeofenceZone[]): { zone: GeofenceZone; depth: number } | null {
+        const { x, y, z } = boid.position;
+        let nearestInclusion: GeofenceZone | null = null;
+        let inclusionDepth = -Infinity;
+
+        for (const zone of zones) {
+            const depth = zoneDepth(zone, x, y, z, _normal);
+            if (zone.kind === 'exclusion') {
+                if (depth > 0) return { zone, depth };
+            } else if (depth > inclusionDepth) {
+                nearestInclusion = zone;
+                inclusionDepth = depth;
+            }
+        }
+
+        if (nearestInclusion && inclusionDepth < 0) return { zone: nearestInclusion, depth: -inclusionDepth };
+        return null;
+    }
+
+    private log(event: GeofenceBreach, limit: number): void {
+        this.totalBreaches++;
+        this.events.push(event);
+        if (this.events.length > limit) {
+            this.events.splice(0, this.events.length - limit);
+        }
+    }
+}
+
+/**
+ * Irregular hexagon inside the bounds, as a starting venue polygon
+ */
+export function createVenueGeofence(config: BoidConfig): PolygonGeofence {
+    const { min, max } = config.bounds;
+    const cx = (min.x + max.x) / 2;
+    const cz = (min.z + max.z) / 2;
+    const rx = (max.x - min.x) / 2 * 0.85;
+    const rz = (max.z - min.z) / 2 * 0.85;
+    const shape = [1, 0.8, 0.95, 0.75, 1, 0.85];
+    return {
+        name: 'Venue',
+        kind: 'inclusion',
+        shape: 'polygon',
+        points: shape.map((s, i) => {
+            const angle = i / shape.length * Math.PI * 2;
+            return [Math.round(cx + Math.cos(angle) * rx * s), Math.round(cz + Math.sin(angle) * rz * s)];
+        }),
+        floor: min.y,
+        ceiling: Math.round(min.y + (max.y - min.y) * 0.75)
+    };
+}
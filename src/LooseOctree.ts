@@ -0,0 +1,355 @@
+import { boxDistanceSq, NearestCollector, SpatialIndex, SpatialIndexStats } from './SpatialIndex';
+
+// Node bounds are the node cube enlarged by this factor (a Boid may drift this far before moving)
+const LOOSENESS = 1.25;
+// A node splits once it holds more Boids than this
+const NODE_CAPACITY = 16;
+// Nodes are never split below this half-size (meters)
+const MIN_HALF_SIZE = 1;
+// Full rebuild interval, so emptied branches are eventually dropped
+const REBUILD_INTERVAL = 120;
+
+/**
+ * Loose octree: subdivides only where Boids are dense, so a tight formation
+ * (e.g. 1,000 drones packed into a logo) gets small nodes while empty sky costs
+ * nothing. The tree is kept between steps; a Boid is only re-inserted once it
+ * leaves the loose bounds of its node, and Boids can live in inner nodes.
+ *
+ * Nodes and per-node Boid lists (doubly linked through slot arrays) live in
+ * reused typed arrays. Children of a node are 8 consecutive nodes.
+ */
+export class LooseOctree implements SpatialIndex {
+    readonly type = 'octree';
+
+    // Node pool
+    private nodeCount = 0;
+    private nodeCenter: Float64Array = new Float64Array(0);   // [x, y, z] per node
+    private nodeHalf: Float64Array = new Float64Array(0);     // Half-size of the (strict) node cube
+    private nodeChild: Int32Array = new Int32Array(0);        // First of 8 children, -1 for a leaf
+    private nodeHead: Int32Array = new Int32Array(0);         // First slot in the node, -1 if none
+    private nodeItems: Int32Array = new Int32Array(0);        // Slots held directly by the node
+
+    // Per-slot links
+    private slotNode = new Int32Array(0);
+    private slotNext = new Int32Array(0);
+    private slotPrev = new Int32Array(0);
+
+    private positions: Float32Array = new Float32Array(0);
+    private count = 0;
+    private buildsSinceRebuild = 0;
+
+    private stack = new Int32Array(0);
+    private nearest = new NearestCollector();
+
+    // Query cost since the last build
+    private queryCount = 0;
+    private nodesVisited = 0;
+    private candidatesTested = 0;
+
+    setCellSize(_cellSize: number): void {
+        // Node sizes adapt to density
+    }
+
+    build(positions: Float32Array, count: number): void {
+        const fullRebuild = count !== this.count
+            || this.nodeCount === 0
+            || ++this.buildsSinceRebuild >= REBUILD_INTERVAL;
+
+        this.positions = positions;
+        this.count = count;
+        this.queryCount = 0;
+        this.nodesVisited = 0;
+        this.candidatesTested = 0;
+
+        if (fullRebuild || !this.refit()) {
+            this.rebuild();
+        }
+        if (this.stack.length < this.nodeCount) {
+            this.stack = new Int32Array(this.nodeCount * 2);
+        }
+    }
+
+    /**
+     * Re-insert Boids that left their node's loose bounds.
+     * Returns false if one left the root cube (a full rebuild is needed).
+     */
+    private refit(): boolean {
+        const positions = this.positions;
+        for (let i = 0; i < this.count; i++) {
+            const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+            const node = this.slotNode[i];
+            if (this.inside(node, x, y, z, LOOSENESS)) continue;
+            if (!this.inside(0, x, y, z, 1)) return false;
+            this.unlink(i);
+            this.insert(i, x, y, z);
+        }
+        return true;
+    }
+
+    /**
+     * Build the tree from scratch around the current swarm
+     */
+    private rebuild(): void {
+        const positions = this.positions;
+        const count = this.count;
+        this.buildsSinceRebuild = 0;
+
+        if (this.slotNode.length < count) {
+            const capacity = Math.max(count, this.slotNode.length * 2);
+            this.slotNode = new Int32Array(capacity);
+            this.slotNext = new Int32Array(capacity);
+            this.slotPrev = new Int32Array(capacity);
+        }
+
+        let minX = Infinity, minY = Infinity, minZ = Infinity;
+        let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+        for (let i = 0; i < count; i++) {
+            const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+            if (z < minZ) minZ = z;
+            if (z > maxZ) maxZ = z;
+        }
+        if (count === 0) minX = minY = minZ = maxX = maxY = maxZ = 0;
+
+        // Root cube with some margin so the swarm can move without leaving it
+        const half = Math.max(maxX - minX, maxY - minY, maxZ - minZ) * 0.5 * 1.25 + MIN_HALF_SIZE;
+        this.nodeCount = 0;
+        this.allocateNode((minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2, half);
+
+        for (let i = 0; i < count; i++) {
+            this.insert(i, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+        }
+    }
+
+    /**
+     * Insert a slot at the leaf whose cube contains it, splitting full leaves
+     */
+    private insert(slot: number, x: number, y: number, z: number): void {
+        let node = 0;
+        while (this.nodeChild[node] !== -1) {
+            node = this.nodeChild[node] + this.octant(node, x, y, z);
+        }
+        this.link(slot, node);
+        if (this.nodeItems[node] > NODE_CAPACITY && this.nodeHalf[node] > MIN_HALF_SIZE) {
+            this.split(node);
+        }
+    }
+
+    /**
+     * Turn a leaf into an inner node, moving its Boids into the 8 children.
+     * Boids that drifted outside the node cube stay in the node itself.
+     */
+    private split(node: number): void {
+        const half = this.nodeHalf[node] / 2;
+        const cx = this.nodeCenter[node * 3];
+        const cy = this.nodeCenter[node * 3 + 1];
+        const cz = this.nodeCenter[node * 3 + 2];
+
+        const first = this.nodeCount;
+        for (let o = 0; o < 8; o++) {
+            this.allocateNode(
+                cx + (o & 1 ? half : -half),
+                cy + (o & 2 ? half : -half),
+                cz + (o & 4 ? half : -half),
+                half
+            );
+        }
+        this.nodeChild[node] = first;
+
+        const positions = this.positions;
+        let slot = this.nodeHead[node];
+        while (slot !== -1) {
+            const next = this.slotNext[slot];
+            const x = positions[slot * 3], y = positions[slot * 3 + 1], z = positions[slot * 3 + 2];
+            if (this.inside(node, x, y, z, 1)) {
+                this.unlink(slot);
+                this.link(slot, first + this.octant(node, x, y, z));
+            }
+            slot = next;
+        }
+
+        for (let o = 0; o < 8; o++) {
+            const child = first + o;
+            if (this.nodeItems[child] > NODE_CAPACITY && half > MIN_HALF_SIZE) {
+                this.split(child);
+            }
+        }
+    }
+
+    private allocateNode(x: number, y: number, z: number, half: number): number {
+        if (this.nodeCount === this.nodeHalf.length) {
+            const capacity = Math.max(64, this.nodeCount * 2);
+            this.nodeCenter = LooseOctree.growFloat(this.nodeCenter, capacity * 3);
+            this.nodeHalf = LooseOctree.growFloat(this.nodeHalf, capacity);
+            this.nodeChild = LooseOctree.growInt(this.nodeChild, capacity);
+            this.nodeHead = LooseOctree.growInt(this.nodeHead, capacity);
+            this.nodeItems = LooseOctree.growInt(this.nodeItems, capacity);
+        }
+        const node = this.nodeCount++;
+        this.nodeCenter[node * 3] = x;
+        this.nodeCenter[node * 3 + 1] = y;
+        this.nodeCenter[node * 3 + 2] = z;
+        this.nodeHalf[node] = half;
+        this.nodeChild[node] = -1;
+        this.nodeHead[node] = -1;
+        this.nodeItems[node] = 0;
+        return node;
+    }
+
+    private link(slot: number, node: number): void {
+        const head = this.nodeHead[node];
+        this.slotNode[slot] = node;
+        this.slotPrev[slot] = -1;
+        this.slotNext[slot] = head;
+        if (head !== -1) this.slotPrev[head] = slot;
+        this.nodeHead[node] = slot;
+        this.nodeItems[node]++;
+    }
+
+    private unlink(slot: number): void {
+        const node = this.slotNode[slot];
+        const prev = this.slotPrev[slot];
+        const next = this.slotNext[slot];
+        if (prev !== -1) this.slotNext[prev] = next;
+        else this.nodeHead[node] = next;
+        if (next !== -1) this.slotPrev[next] = prev;
+        this.nodeItems[node]--;
+    }
+
+    /**
+     * Child index (0-7) of the octant of `node` that contains the point
+     */
+    private octant(node: number, x: number, y: number, z: number): number {
+        return (x >= this.nodeCenter[node * 3] ? 1 : 0)
+            | (y >= this.nodeCenter[node * 3 + 1] ? 2 : 0)
+            | (z >= this.nodeCenter[node * 3 + 2] ? 4 : 0);
+    }
+
+    /**
+     * Is the point within the node cube scaled by `scale`?
+     */
+    private inside(node: number, x: number, y: number, z: number, scale: number): boolean {
+        const h = this.nodeHalf[node] * scale;
+        return Math.abs(x - this.nodeCenter[node * 3]) <= h
+            && Math.abs(y - this.nodeCenter[node * 3 + 1]) <= h
+            && Math.abs(z - this.nodeCenter[node * 3 + 2]) <= h;
+    }
+
+    /**
+     * Squared distance from the point to the node's loose bounds (every Boid
+     * in the subtree lies inside them)
+     */
+    private looseDistanceSq(node: number, x: number, y: number, z: number): number {
+        const h = this.nodeHalf[node] * LOOSENESS;
+        const cx = this.nodeCenter[node * 3];
+        const cy = this.nodeCenter[node * 3 + 1];
+        const cz = this.nodeCenter[node * 3 + 2];
+        return boxDistanceSq(x, y, z, cx - h, cy - h, cz - h, cx + h, cy + h, cz + h);
+    }
+
+    findNearby(x: number, y: number, z: number, radius: number, out: number[]): number {
+        out.length = 0;
+        if (this.count === 0) return 0;
+
+        const stack = this.stack;
+        let top = 0;
+        stack[top++] = 0;
+        while (top > 0) {
+            const node = stack[--top];
+            if (this.looseDistanceSq(node, x, y, z) > radius * radius) continue;
+
+            for (let j = this.nodeHead[node]; j !== -1; j = this.slotNext[j]) {
+                out.push(j);
+            }
+            const child = this.nodeChild[node];
+            if (child !== -1) {
+                for (let o = 0; o < 8; o++) stack[top++] = child + o;
+            }
+        }
+
+        return out.length;
+    }
+
+    findNearest(
+        x: number, y: number, z: number,
+        radius: number,
+        k: number,
+        out: Int32Array | number[],
+        outOffset: number = 0,
+        exclude: number = -1,
+        accept?: (index: number) => boolean
+    ): number {
+        if (k <= 0 || this.count === 0) return 0;
+        const nearest = this.nearest;
+        nearest.reset(k, radius);
+        this.queryCount++;
+
+        const positions = this.positions;
+        const stack = this.stack;
+        let top = 0;
+        stack[top++] = 0;
+
+        while (top > 0) {
+            const node = stack[--top];
+            if (this.looseDistanceSq(node, x, y, z) > nearest.limitSq) continue;
+
+            if (this.nodeItems[node] > 0) this.nodesVisited++;
+            for (let j = this.nodeHead[node]; j !== -1; j = this.slotNext[j]) {
+                if (j === exclude) continue;
+                this.candidatesTested++;
+                const ox = positions[j * 3] - x;
+                const oy = positions[j * 3 + 1] - y;
+                const oz = positions[j * 3 + 2] - z;
+                const distSq = ox * ox + oy * oy + oz * oz;
+                if (!nearest.wants(distSq) || (accept && !accept(j))) continue;
+                nearest.insert(j, distSq);
+            }
+
+            const child = this.nodeChild[node];
+            if (child !== -1) {
+                // Push the octant holding the query last so it is searched first
+                const own = this.octant(node, x, y, z);
+                for (let o = 0; o < 8; o++) {
+                    if (o !== own) stack[top++] = child + o;
+                }
+                stack[top++] = child + own;
+            }
+        }
+
+        return nearest.write(out, outOffset);
+    }
+
+    getStats(): SpatialIndexStats {
+        let occupied = 0;
+        let maxBoids = 0;
+        for (let n = 0; n < this.nodeCount; n++) {
+            const items = this.nodeItems[n];
+            if (items > 0) occupied++;
+            if (items > maxBoids) maxBoids = items;
+        }
+
+        const queries = Math.max(1, this.queryCount);
+        return {
+            cellCount: occupied,
+            avgBoidsPerCell: occupied > 0 ? this.count / occupied : 0,
+            maxBoidsInCell: maxBoids,
+            avgCellsPerQuery: this.nodesVisited / queries,
+            avgCandidatesPerQuery: this.candidatesTested / queries
+        };
+    }
+
+    private static growFloat(array: Float64Array, length: number): Float64Array {
+        const next = new Float64Array(length);
+        next.set(array);
+        return next;
+    }
+
+    private static growInt(array: Int32Array, length: number): Int32Array {
+        const next = new Int32Array(length);
+        next.set(array);
+        return next;
+    }
+}
@@ -0,0 +1,280 @@
+import { Box3, Vector3 } from 'three';
+
+export type ObstacleShape = 'box' | 'sphere' | 'cylinder';
+
+// Where an obstacle came from: generated city buildings or added by the user
+export type ObstacleSource = 'building' | 'user';
+
+/**
+ * Static obstacle the swarm must fly around
+ */
+export abstract class Obstacle {
+    id: number = -1;
+    source: ObstacleSource;
+    abstract readonly shape: ObstacleShape;
+
+    // Bounding sphere used as a cheap broad-phase test
+    readonly boundingCenter = new Vector3();
+    boundingRadius = 0;
+
+    constructor(source: ObstacleSource) {
+        this.source = source;
+    }
+
+    /**
+     * Cast a ray against the obstacle.
+     * Returns the hit distance (0 if the origin is inside) or -1 on a miss;
+     * the surface normal at the hit is written to `outNormal`.
+     */
+    abstract raycast(origin: Vector3, direction: Vector3, maxDistance: number, outNormal: Vector3): number;
+
+    /**
+     * Check if a point lies inside the obstacle
+     */
+    abstract containsPoint(point: Vector3): boolean;
+
+    /**
+     * Broad-phase check: can anything within `range` of `point` touch this obstacle?
+     */
+    isNear(point: Vector3, range: number): boolean {
+        const reach = this.boundingRadius + range;
+        return point.distanceToSquared(this.boundingCenter) <= reach * reach;
+    }
+}
+
+/**
+ * Axis-aligned box (e.g. a building)
+ */
+export class BoxObstacle extends Obstacle {
+    readonly shape = 'box';
+    readonly box: Box3;
+
+    constructor(box: Box3, source: ObstacleSource = 'user') {
+        super(source);
+        this.box = box.clone();
+        this.box.getCenter(this.boundingCenter);
+        this.boundingRadius = this.box.min.distanceTo(this.box.max) / 2;
+    }
+
+    raycast(origin: Vector3, direction: Vector3, maxDistance: number, outNormal: Vector3): number {
+        const { min, max } = this.box;
+
+        if (this.box.containsPoint(origin)) {
+            // Push out through the closest face
+            const faces = [
+                origin.x - min.x, max.x - origin.x,
+                origin.y - min.y, max.y - origin.y,
+                origin.z - min.z, max.z - origin.z
+            ];
+            let best = 0;
+            for (let i = 1; i < faces.length; i++) {
+                if (faces[i] < faces[best]) best = i;
+            }
+            outNormal.set(0, 0, 0).setComponent(best >> 1, best % 2 === 0 ? -1 : 1);
+            return 0;
+        }
+
+        // Slab method, tracking which axis produced the entry point
+        let tMin = 0;
+        let tMax = maxDistance;
+        let hitAxis = -1;
+        let hitSign = 0;
+
+        for (let axis = 0; axis < 3; axis++) {
+            const o = origin.getComponent(axis);
+            const d = direction.getComponent(axis);
+            const lo = min.getComponent(axis);
+            const hi = max.getComponent(axis);
+
+            if (Math.abs(d) < 1e-8) {
+                if (o < lo || o > hi) return -1;
+                continue;
+            }
+
+            let t1 = (lo - o) / d;
+            let t2 = (hi - o) / d;
+            let sign = -1;
+            if (t1 > t2) {
+                [t1, t2] = [t2, t1];
+                sign = 1;
+            }
+
+            if (t1 > tMin) {
+                tMin = t1;
+                hitAxis = axis;
+                hitSign = sign;
+            }
+            tMax = Math.min(tMax, t2);
+            if (tMin > tMax) return -1;
+        }
+
+        if (hitAxis < 0) return -1;
+        outNormal.set(0, 0, 0).setComponent(hitAxis, hitSign);
+        return tMin;
+    }
+
+    containsPoint(point: Vector3): boolean {
+        return this.box.containsPoint(point);
+    }
+}
+
+/**
+ * Sphere obstacle
+ */
+export class SphereObstacle extends Obstacle {
+    readonly shape = 'sphere';
+    readonly center: Vector3;
+    readonly radius: number;
+
+    constructor(center: Vector3, radius: number, source: ObstacleSource = 'user') {
+        super(source);
+        this.center = center.clone();
+        this.radius = radius;
+        this.boundingCenter.copy(center);
+        this.boundingRadius = radius;
+    }
+
+    raycast(origin: Vector3, direction: Vector3, maxDistance: number, outNormal: Vector3): number {
+        const ox = origin.x - this.center.x;
+        const oy = origin.y - this.center.y;
+        const oz = origin.z - this.center.z;
+        const c = ox * ox + oy * oy + oz * oz - this.radius * this.radius;
+
+        if (c <= 0) {
+            outNormal.set(ox, oy, oz).normalize();
+            return 0;
+        }
+
+        const b = ox * direction.x + oy * direction.y + oz * direction.z;
+        const disc = b * b - c;
+        if (b > 0 || disc < 0) return -1;
+
+        const t = -b - Math.sqrt(disc);
+        if (t > maxDistance) return -1;
+
+        outNormal.copy(origin).addScaledVector(direction, t).sub(this.center).normalize();
+        return t;
+    }
+
+    containsPoint(point: Vector3): boolean {
+        return point.distanceToSquared(this.center) <= this.radius * this.radius;
+    }
+}
+
+/**
+ * Vertical cylinder standing on `base` (e.g. a tower or mast)
+ */
+export class CylinderObstacle extends Obstacle {
+    readonly shape = 'cylinder';
+    readonly base: Vector3;
+    readonly radius: number;
+    readonly height: number;
+
+    constructor(base: Vector3, radius: number, height: number, source: ObstacleSource = 'user') {
+        super(source);
+        this.base = base.clone();
+        this.radius = radius;
+        this.height = height;
+        this.boundingCenter.set(base.x, base.y + height / 2, base.z);
+        this.boundingRadius = Math.sqrt(radius * radius + (height / 2) * (height / 2));
+    }
+
+    raycast(origin: Vector3, direction: Vector3, maxDistance: number, outNormal: Vector3): number {
+        const bottom = this.base.y;
+        const top = this.base.y + this.height;
+        const ox = origin.x - this.base.x;
+        const oz = origin.z - this.base.z;
+        const r2 = this.radius * this.radius;
+
+        if (this.containsPoint(origin)) {
+            // Push out through the side or the cap, whichever is closer
+            const sideGap = this.radius - Math.sqrt(ox * ox + oz * oz);
+            if (top - origin.y < sideGap) {
+                outNormal.set(0, 1, 0);
+            } else if (origin.y - bottom < sideGap) {
+                outNormal.set(0, -1, 0);
+            } else {
+                outNormal.set(ox, 0, oz).normalize();
+            }
+            return 0;
+        }
+
+        let best = -1;
+
+        // Curved side (infinite cylinder clipped to [bottom, top])
+        const a = direction.x * direction.x + direction.z * direction.z;
+        if (a > 1e-8) {
+            const b = ox * direction.x + oz * direction.z;
+            const c = ox * ox + oz * oz - r2;
+            const disc = b * b - a * c;
+            if (disc >= 0) {
+                const t = (-b - Math.sqrt(disc)) / a;
+                const y = origin.y + direction.y * t;
+                if (t >= 0 && t <= maxDistance && y >= bottom && y <= top) {
+                    best = t;
+                    outNormal.set(ox + direction.x * t, 0, oz + direction.z * t).normalize();
+                }
+            }
+        }
+
+        // Caps
+        if (Math.abs(direction.y) > 1e-8) {
+            for (let cap = 0; cap < 2; cap++) {
+                const capY = cap === 0 ? top : bottom;
+                const t = (capY - origin.y) / direction.y;
+                if (t < 0 || t > maxDistance || (best >= 0 && t >= best)) continue;
+                const x = ox + direction.x * t;
+                const z = oz + direction.z * t;
+                if (x * x + z * z <= r2) {
+                    best = t;
+                    outNormal.set(0, capY === top ? 1 : -1, 0);
+                }
+            }
+        }
+
+        return best;
+    }
+
+    containsPoint(point: Vector3): boolean {
+        if (point.y < this.base.y || point.y > this.base.y + this.height) return false;
+        const dx = point.x - this.base.x;
+        const dz = point.z - this.base.z;
+        return dx * dx + dz * dz <= this.radius * this.radius;
+    }
+}
+
+/**
+ * Plain-data form of an obstacle (for worker messages and saved files)
+ */
+export type SerializedObstacle =
+    | { shape: 'box'; source: ObstacleSource; min: number[]; max: number[] }
+    | { shape: 'sphere'; source: ObstacleSource; center: number[]; radius: number }
+    | { shape: 'cylinder'; source: ObstacleSource; base: number[]; radius: number; height: number };
+
+/**
+ * Convert an obstacle to plain data
+ */
+export function serializeObstacle(obstacle: Obstacle): SerializedObstacle {
+    if (obstacle instanceof SphereObstacle) {
+        return { shape: 'sphere', source: obstacle.source, center: obstacle.center.toArray(), radius: obstacle.radius };
+    }
+    if (obstacle instanceof CylinderObstacle) {
+        return { shape: 'cylinder', source: obstacle.source, base: obstacle.base.toArray(), radius: obstacle.radius, height: obstacle.height };
+    }
+    const { box } = obstacle as BoxObstacle;
+    return { shape: 'box', source: obstacle.source, min: box.min.toArray(), max: box.max.toArray() };
+}
+
+/**
+ * Rebuild an obstacle from plain data
+ */
+export function deserializeObstacle(data: SerializedObstacle): Obstacle {
+    switch (data.shape) {
+        case 'sphere':
+            return new SphereObstacle(new Vector3().fromArray(data.center), data.radius, data.source);
+        case 'cylinder':
+            return new CylinderObstacle(new Vector3().fromArray(data.base), data.radius, data.height, data.source);
+        case 'box':
+            return new BoxObstacle(new Box3(new Vector3().fromArray(data.min), new Vector3().fromArray(data.max)), data.source);
+    }
+}
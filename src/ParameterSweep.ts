@@ -0,0 +1,318 @@
+import { BoidConfig } from './BoidConfig';
+import { BoidSystem } from './BoidSystem';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Numeric BoidConfig fields a sweep can vary
+ */
+export type TunableParameter = {
+    [K in keyof BoidConfig]: BoidConfig[K] extends number ? K : never
+}[keyof BoidConfig];
+
+/**
+ * Range of one swept parameter
+ */
+export interface ParameterRange {
+    key: TunableParameter;
+    min: number;
+    max: number;
+    steps?: number;             // Grid points from min to max (default 3)
+    integer?: boolean;          // Round sampled values (e.g. maxNeighbors)
+}
+
+/**
+ * What a good run looks like. Scores add up the misses, so lower is better.
+ */
+export interface SweepTarget {
+    polarization: number;       // Desired mean polarization (0-1)
+    minSeparation: number;      // Closest two drones may get (m)
+    collisionWeight: number;    // Score added per collision
+}
+
+export interface SweepOptions {
+    boidCount: number;
+    steps: number;              // Fixed steps per run
+    warmupSteps: number;        // Steps before scoring starts (the swarm settles from its random start)
+    seed: number;               // Same seed for every run, so runs differ only in parameters
+    target: SweepTarget;
+}
+
+/**
+ * Sweep description, e.g. loaded from a JSON file by the CLI
+ */
+export interface SweepSpec {
+    mode: 'grid' | 'random' | 'optimize';
+    ranges: ParameterRange[];
+    samples?: number;           // Runs in random mode (default 20)
+    iterations?: number;        // Runs in optimize mode (default 40)
+    target?: Partial<SweepTarget>;
+}
+
+/**
+ * One scored run
+ */
+export interface SweepResult {
+    params: Partial<Record<TunableParameter, number>>;
+    score: number;
+    polarization: number;       // Mean after warm-up
+    minSeparation: number;      // Closest approach after warm-up (m, Infinity if none within the near-miss radius)
+    collisions: number;
+    nearMisses: number;
+}
+
+export const DEFAULT_SWEEP_TARGET: SweepTarget = {
+    polarization: 0.8,
+    minSeparation: 2,
+    collisionWeight: 0.1
+};
+
+const SWEEP_MODES = ['grid', 'random', 'optimize'];
+
+// (1+1)-ES step size, as a share of each range, and its 1/5th-rule adaptation
+const ES_INITIAL_SIGMA = 0.2;
+const ES_MIN_SIGMA = 0.01;
+const ES_GROWTH = 1.5;
+
+/**
+ * Check parsed JSON against the sweep spec format: a known mode, ranges over
+ * numeric BoidConfig fields, and finite numbers. Throws an Error naming the
+ * first problem found.
+ */
+export function parseSweepSpec(data: unknown): SweepSpec {
+    const spec = data as SweepSpec;
+    if (!spec || typeof spec !== 'object') throw new Error('Sweep spec: not a JSON object');
+    if (!SWEEP_MODES.includes(spec.mode)) throw new Error(`Sweep spec: "mode" must be one of ${SWEEP_MODES.join(', ')}`);
+    if (!Array.isArray(spec.ranges) || spec.ranges.length === 0) throw new Error('Sweep spec: "ranges" must list at least one range');
+
+    const defaults = new BoidConfig();
+    spec.ranges.forEach((range, i) => {
+        const where = `range ${i}${typeof range.key === 'string' ? ` ("${range.key}")` : ''}`;
+        if (typeof range.key !== 'string' || typeof (defaults as unknown as Record<string, unknown>)[range.key] !== 'number') {
+            throw new Error(`Sweep spec: ${where} "key" must name a numeric BoidConfig field`);
+        }
+        if (!isFiniteNumber(range.min) || !isFiniteNumber(range.max) || range.max < range.min) {
+            throw new Error(`Sweep spec: ${where} needs finite "min" <= "max"`);
+        }
+        if (range.steps !== undefined && !isPositiveInteger(range.steps)) {
+            throw new Error(`Sweep spec: ${where} "steps" must be a positive integer`);
+        }
+    });
+    if (spec.samples !== undefined && !isPositiveInteger(spec.samples)) throw new Error('Sweep spec: "samples" must be a positive integer');
+    if (spec.iterations !== undefined && !isPositiveInteger(spec.iterations)) throw new Error('Sweep spec: "iterations" must be a positive integer');
+    if (spec.target !== undefined) checkTarget({ ...DEFAULT_SWEEP_TARGET, ...spec.target });
+    return spec;
+}
+
+/**
+ * Runs headless simulations over ranges of BoidConfig parameters and ranks
+ * them against a target: on a grid, at random points, or with a (1+1)
+ * evolution strategy that starts from the base configuration.
+ *
+ * Every run starts from the same base configuration (exportConfig JSON, or
+ * the defaults) and seed, with collision detection and metrics forced on for scoring.
+ */
+export class ParameterSweep {
+    private baseConfig: string | undefined;
+    private options: SweepOptions;
+    // Called after every run, e.g. to report progress
+    onResult?: (result: SweepResult, index: number, total: number) => void;
+
+    constructor(baseConfig: string | undefined, options: SweepOptions) {
+        this.baseConfig = baseConfig;
+        this.options = options;
+    }
+
+    /**
+     * Run the sweep a spec describes. Results are ranked, best first.
+     */
+    run(spec: SweepSpec): SweepResult[] {
+        parseSweepSpec(spec);
+        this.options.target = checkTarget({ ...this.options.target, ...spec.target });
+        switch (spec.mode) {
+            case 'grid':
+                return this.grid(spec.ranges);
+            case 'random':
+                return this.random(spec.ranges, spec.samples ?? 20);
+            case 'optimize':
+                return this.optimize(spec.ranges, spec.iterations ?? 40);
+        }
+    }
+
+    /**
+     * Every combination of the ranges' grid points
+     */
+    grid(ranges: ParameterRange[]): SweepResult[] {
+        let points: Partial<Record<TunableParameter, number>>[] = [{}];
+        for (const range of ranges) {
+            const steps = Math.max(1, range.steps ?? 3);
+            const values = Array.from({ length: steps }, (_, i) =>
+                steps === 1 ? range.min : range.min + (range.max - range.min) * i / (steps - 1));
+            points = points.flatMap(point => values.map(v => ({ ...point, [range.key]: roundFor(range, v) })));
+        }
+        return rank(points.map((params, i) => this.report(this.evaluate(params), i, points.length)));
+    }
+
+    /**
+     * `samples` points drawn uniformly from the ranges
+     */
+    random(ranges: ParameterRange[], samples: number): SweepResult[] {
+        const rng = SeededRandom.derive(this.options.seed, 5);
+        const results: SweepResult[] = [];
+        for (let i = 0; i < samples; i++) {
+            const params: Partial<Record<TunableParameter, number>> = {};
+            for (const range of ranges) params[range.key] = roundFor(range, rng.range(range.min, range.max));
+            results.push(this.report(this.evaluate(params), i, samples));
+        }
+        return rank(results);
+    }
+
+    /**
+     * (1+1) evolution strategy: mutate the best point so far with Gaussian
+     * noise and keep the child if it scores better. The step size grows on
+     * success and shrinks on failure (1/5th success rule).
+     */
+    optimize(ranges: ParameterRange[], iterations: number): SweepResult[] {
+        const rng = SeededRandom.derive(this.options.seed, 5);
+        const base = this.createSystem({}).config;
+        const toParams = (unit: number[]) => {
+            const params: Partial<Record<TunableParameter, number>> = {};
+            ranges.forEach((range, i) => params[range.key] = roundFor(range, range.min + unit[i] * (range.max - range.min)));
+            return params;
+        };
+
+        // Start from the base configuration, clamped into the ranges
+        let parent = ranges.map(range => clamp01((base[range.key] - range.min) / (range.max - range.min || 1)));
+        let best = this.report(this.evaluate(toParams(parent)), 0, iterations);
+        const results = [best];
+        let sigma = ES_INITIAL_SIGMA;
+
+        for (let i = 1; i < iterations; i++) {
+            const child = parent.map(u => clamp01(u + sigma * rng.gaussian()));
+            const result = this.report(this.evaluate(toParams(child)), i, iterations);
+            results.push(result);
+            if (result.score < best.score) {
+                parent = child;
+                best = result;
+                sigma *= ES_GROWTH;
+            } else {
+                sigma = Math.max(ES_MIN_SIGMA, sigma * Math.pow(ES_GROWTH, -0.25));
+            }
+        }
+        return rank(results);
+    }
+
+    /**
+     * Run one simulation with `params` applied to the base configuration and score it
+     */
+    evaluate(params: Partial<Record<TunableParameter, number>>): SweepResult {
+        const { boidCount, steps, warmupSteps, target } = this.options;
+        const system = this.createSystem(params);
+        system.config.collisionDetection = true;
+        system.config.collectMetrics = true;
+        system.initializeBoids(boidCount);
+
+        const dt = system.config.fixedTimeStep;
+        let collisionsBefore = 0;
+        let nearMissesBefore = 0;
+        let minSeparation = Infinity;
+        let polarizationSum = 0;
+        let sampleCount = 0;
+        for (let step = 0; step < steps; step++) {
+            if (step === warmupSteps) {
+                collisionsBefore = system.safety.totals.collisions;
+                nearMissesBefore = system.safety.totals.nearMisses;
+            }
+            const previous = system.metrics.latest;
+            system.step(dt);
+            if (step < warmupSteps) continue;
+
+            minSeparation = Math.min(minSeparation, system.safety.minSeparation);
+            const sample = system.metrics.latest;
+            if (sample && sample !== previous) {
+                polarizationSum += sample.polarization;
+                sampleCount++;
+            }
+        }
+
+        const polarization = sampleCount > 0 ? polarizationSum / sampleCount : 0;
+        const collisions = system.safety.totals.collisions - collisionsBefore;
+        const nearMisses = system.safety.totals.nearMisses - nearMissesBefore;
+
+        const score = Math.abs(polarization - target.polarization)
+            + Math.max(0, target.minSeparation - minSeparation) / target.minSeparation
+            + collisions * target.collisionWeight;
+        return { params, score, polarization, minSeparation, collisions, nearMisses };
+    }
+
+    /**
+     * Base configuration with a result's parameters applied, as exportConfig
+     * JSON that importConfig (and Import Config in the GUI) can load
+     */
+    exportPreset(result: SweepResult): string {
+        return this.createSystem(result.params).exportConfig();
+    }
+
+    private createSystem(params: Partial<Record<TunableParameter, number>>): BoidSystem {
+        const system = new BoidSystem(new BoidConfig());
+        if (this.baseConfig) system.importConfig(this.baseConfig);
+        Object.assign(system.config, params);
+        system.config.seed = this.options.seed;
+        return system;
+    }
+
+    private report(result: SweepResult, index: number, total: number): SweepResult {
+        this.onResult?.(result, index, total);
+        return result;
+    }
+}
+
+/**
+ * Ranked results as CSV, one column per swept parameter
+ */
+export function sweepResultsToCSV(results: readonly SweepResult[]): string {
+    const keys = [...new Set(results.flatMap(r => Object.keys(r.params)))] as TunableParameter[];
+    const rows = [['rank', 'score', ...keys, 'polarization', 'minSeparation', 'collisions', 'nearMisses'].join(',')];
+    results.forEach((r, i) => {
+        rows.push([
+            i + 1, r.score.toFixed(4),
+            ...keys.map(k => r.params[k] ?? ''),
+            r.polarization.toFixed(4),
+            Number.isFinite(r.minSeparation) ? r.minSeparation.toFixed(2) : '',
+            r.collisions, r.nearMisses
+        ].join(','));
+    });
+    return rows.join('\n');
+}
+
+function rank(results: SweepResult[]): SweepResult[] {
+    return results.sort((a, b) => a.score - b.score);
+}
+
+function roundFor(range: ParameterRange, value: number): number {
+    return range.integer ? Math.round(value) : Number(value.toPrecision(4));
+}
+
+function checkTarget(target: SweepTarget): SweepTarget {
+    if (!isFiniteNumber(target.polarization) || target.polarization < 0 || target.polarization > 1) {
+        throw new Error('Sweep spec: target "polarization" must be between 0 and 1');
+    }
+    if (!isFiniteNumber(target.minSeparation) || target.minSeparation <= 0) {
+        throw new Error('Sweep spec: target "minSeparation" must be a positive number');
+    }
+    if (!isFiniteNumber(target.collisionWeight) || target.collisionWeight < 0) {
+        throw new Error('Sweep spec: target "collisionWeight" must be a non-negative number');
+    }
+    return target;
+}
+
+function isFiniteNumber(n: unknown): n is number {
+    return typeof n === 'number' && Number.isFinite(n);
+}
+
+function isPositiveInteger(n: unknown): boolean {
+    return Number.isInteger(n) && (n as number) > 0;
+}
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
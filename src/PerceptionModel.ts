@@ -0,0 +1,209 @@
+import { BoidBuffers } from './BoidBuffers';
+import { BoidConfig } from './BoidConfig';
+import { SeededRandom } from './SeededRandom';
+
+// Floats per broadcast: measured position [x, y, z], measured velocity [x, y, z]
+const STATE_SIZE = 6;
+// How many consecutive lost packets a receiver bridges with its last known state
+const MAX_MISSED_PACKETS = 30;
+
+/**
+ * Imperfect sensing and communication between drones.
+ *
+ * Every step each drone broadcasts its GPS position (true position plus a
+ * slowly drifting error, modelled as a first-order Gauss-Markov process) and
+ * its velocity with white noise. Broadcasts are kept in a ring buffer so a
+ * receiver sees each neighbor as it was `perceptionLatency` seconds ago. Each
+ * packet on each receiver/sender link is lost with probability
+ * `packetDropRate`; the receiver then falls back to the newest packet that did
+ * arrive, up to MAX_MISSED_PACKETS steps old, after which the neighbor is
+ * ignored.
+ *
+ * A drone also knows its own position only through GPS, so seeking a target
+ * (story formation slots, cohesion centers) carries the same error.
+ *
+ * Drops come from a hash of (receiver, sender, step, seed) and the noise from
+ * a generator derived from the config seed, so runs stay reproducible.
+ */
+export class PerceptionModel {
+    private capacity = 0;
+    private depth = 0;
+    // Broadcasts written since reset (the newest is frame - 1)
+    private frame = 0;
+    private latencySteps = 0;
+    private seed = 0;
+    private rng = new SeededRandom();
+
+    // Ring of broadcasts: row (frame % depth) holds STATE_SIZE floats per slot
+    history: Float32Array = new Float32Array(0);
+    // Current GPS error per slot [x, y, z] (m)
+    private gpsErrors: Float32Array = new Float32Array(0);
+    // Frame at which each slot started broadcasting
+    private since: Int32Array = new Int32Array(0);
+
+    // Link statistics since the last update
+    stats = {
+        lookups: 0,         // Neighbor states requested
+        dropped: 0,         // Requests whose on-time packet was lost
+        lost: 0,            // Requests with no usable packet at all
+        ageSum: 0           // Sum of the ages of the states used (steps)
+    };
+
+    /**
+     * Restart the noise and drop sequences, e.g. when the swarm is rebuilt
+     */
+    reset(seed: number): void {
+        this.seed = seed >>> 0;
+        this.rng = SeededRandom.derive(seed, 3);
+        this.frame = 0;
+        this.since.fill(0);
+    }
+
+    /**
+     * Give slot `index` a fresh GPS error and an empty broadcast history
+     */
+    resetSlot(index: number, config: BoidConfig): void {
+        this.ensureCapacity(index + 1);
+        const i = index * 3;
+        this.gpsErrors[i] = this.rng.gaussian() * config.gpsNoise;
+        this.gpsErrors[i + 1] = this.rng.gaussian() * config.gpsNoise;
+        this.gpsErrors[i + 2] = this.rng.gaussian() * config.gpsNoise;
+        this.since[index] = this.frame;
+    }
+
+    /**
+     * Move slot state along with BoidBuffers.moveSlot
+     */
+    moveSlot(from: number, to: number): void {
+        const f = from * 3;
+        const t = to * 3;
+        this.gpsErrors[t] = this.gpsErrors[f];
+        this.gpsErrors[t + 1] = this.gpsErrors[f + 1];
+        this.gpsErrors[t + 2] = this.gpsErrors[f + 2];
+        this.since[to] = this.since[from];
+        for (let row = 0; row < this.depth; row++) {
+            const base = row * this.capacity;
+            this.history.copyWithin((base + to) * STATE_SIZE, (base + from) * STATE_SIZE, (base + from + 1) * STATE_SIZE);
+        }
+    }
+
+    /**
+     * Advance GPS errors and record this step's broadcast of every drone
+     */
+    update(buffers: BoidBuffers, count: number, config: BoidConfig, dt: number): void {
+        this.ensureCapacity(count);
+        this.latencySteps = Math.max(0, Math.round(config.perceptionLatency / dt));
+        const depth = this.latencySteps + MAX_MISSED_PACKETS + 1;
+        if (depth !== this.depth) {
+            // History layout changed: start over as if every drone just appeared
+            this.depth = depth;
+            this.history = new Float32Array(depth * this.capacity * STATE_SIZE);
+            this.since.fill(this.frame);
+        }
+
+        const decay = config.gpsCorrelationTime > 0 ? Math.exp(-dt / config.gpsCorrelationTime) : 0;
+        const drive = config.gpsNoise * Math.sqrt(1 - decay * decay);
+        const pos = buffers.positions;
+        const vel = buffers.velocities;
+        const errors = this.gpsErrors;
+        const rng = this.rng;
+        const row = (this.frame % depth) * this.capacity;
+
+        for (let s = 0; s < count; s++) {
+            const i = s * 3;
+            const o = (row + s) * STATE_SIZE;
+            for (let axis = 0; axis < 3; axis++) {
+                errors[i + axis] = errors[i + axis] * decay + drive * rng.gaussian();
+                this.history[o + axis] = pos[i + axis] + errors[i + axis];
+                this.history[o + 3 + axis] = vel[i + axis] + config.velocityNoise * rng.gaussian();
+            }
+        }
+
+        this.frame++;
+        this.stats.lookups = 0;
+        this.stats.dropped = 0;
+        this.stats.lost = 0;
+        this.stats.ageSum = 0;
+    }
+
+    /**
+     * Offset into `history` of the state of `sender` as known by `receiver`,
+     * or -1 if no packet from it has arrived recently enough
+     */
+    lookup(receiver: number, sender: number, dropRate: number): number {
+        this.stats.lookups++;
+        const available = this.frame - this.since[sender];
+        if (available <= 0) {
+            this.stats.lost++;
+            return -1;
+        }
+
+        // Until enough history exists, use the oldest broadcast there is
+        const first = Math.min(this.latencySteps, available - 1);
+        const last = Math.min(this.depth, available);
+        for (let age = first; age < last; age++) {
+            const frame = this.frame - 1 - age;
+            if (dropRate > 0 && this.isDropped(receiver, sender, frame, dropRate)) {
+                if (age === first) this.stats.dropped++;
+                continue;
+            }
+            this.stats.ageSum += age;
+            return ((frame % this.depth) * this.capacity + sender) * STATE_SIZE;
+        }
+
+        this.stats.lost++;
+        return -1;
+    }
+
+    /**
+     * Offset into `history` of slot `index`'s own latest GPS fix
+     */
+    ownState(index: number): number {
+        return (((this.frame - 1) % this.depth) * this.capacity + index) * STATE_SIZE;
+    }
+
+    /**
+     * Root-mean-square GPS error over the first `count` slots (m)
+     */
+    gpsErrorRms(count: number): number {
+        let sum = 0;
+        for (let i = 0; i < count * 3; i++) {
+            sum += this.gpsErrors[i] * this.gpsErrors[i];
+        }
+        return count > 0 ? Math.sqrt(sum / count) : 0;
+    }
+
+    /**
+     * Whether the packet `sender` broadcast at `frame` was lost on its way to `receiver`
+     */
+    private isDropped(receiver: number, sender: number, frame: number, dropRate: number): boolean {
+        let h = Math.imul(receiver, 0x9e3779b1) ^ Math.imul(sender, 0x85ebca6b) ^ Math.imul(frame, 0xc2b2ae35) ^ this.seed;
+        h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+        h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+        return ((h ^ (h >>> 16)) >>> 0) / 4294967296 < dropRate;
+    }
+
+    private ensureCapacity(count: number): void {
+        if (count <= this.capacity) return;
+        let capacity = Math.max(64, this.capacity);
+        while (capacity < count) capacity *= 2;
+
+        const errors = new Float32Array(capacity * 3);
+        errors.set(this.gpsErrors);
+        this.gpsErrors = errors;
+        const since = new Int32Array(capacity);
+        since.set(this.since);
+        this.since = since;
+
+        // Re-lay the ring rows for the new slot count
+        const history = new Float32Array(this.depth * capacity * STATE_SIZE);
+        for (let row = 0; row < this.depth; row++) {
+            history.set(
+                this.history.subarray(row * this.capacity * STATE_SIZE, (row + 1) * this.capacity * STATE_SIZE),
+                row * capacity * STATE_SIZE
+            );
+        }
+        this.history = history;
+        this.capacity = capacity;
+    }
+}
@@ -0,0 +1,104 @@
+import { Color } from 'three';
+import { BoidSystem } from './BoidSystem';
+
+/**
+ * Flat per-drone render data: everything Scene needs to draw the swarm.
+ * Plain typed arrays so a frame can be transferred from (or shared with) a worker.
+ */
+export interface RenderFrame {
+    count: number;
+    time: number;               // Simulation time shown by the frame (s, interpolated)
+    positions: Float32Array;    // [x, y, z] per drone (interpolated)
+    colors: Float32Array;       // [r, g, b] per drone, already scaled by light intensity
+    scales: Float32Array;       // Instance scale per drone (0 = hidden)
+}
+
+// Highlight color for leader drones
+const LEADER_COLOR = new Color(0xffd700);
+// Highlight color for drones in a collision
+const COLLISION_COLOR = new Color(0xff0000);
+// Highlight color for drones breaching a geofence
+const GEOFENCE_BREACH_COLOR = new Color(0xff8800);
+// Battery tint endpoints (empty -> full)
+const BATTERY_EMPTY_COLOR = new Color(0xff2020);
+const BATTERY_FULL_COLOR = new Color(0x20ff40);
+const _color = new Color();
+
+/**
+ * Allocate a frame for `capacity` drones, backed by SharedArrayBuffers if requested
+ */
+export function createRenderFrame(capacity: number, shared: boolean = false): RenderFrame {
+    const make = (length: number) => shared
+        ? new Float32Array(new SharedArrayBuffer(length * Float32Array.BYTES_PER_ELEMENT))
+        : new Float32Array(length);
+
+    return {
+        count: 0,
+        time: 0,
+        positions: make(capacity * 3),
+        colors: make(capacity * 3),
+        scales: make(capacity)
+    };
+}
+
+/**
+ * Number of drones a frame has room for
+ */
+export function renderFrameCapacity(frame: RenderFrame): number {
+    return frame.scales.length;
+}
+
+/**
+ * Fill a frame from the current swarm state. Returns the frame that was written,
+ * which is a new, larger one if `frame` was too small.
+ */
+export function writeRenderFrame(system: BoidSystem, frame: RenderFrame, shared: boolean = false): RenderFrame {
+    const boids = system.boids;
+    const config = system.config;
+
+    if (renderFrameCapacity(frame) < boids.length) {
+        frame = createRenderFrame(Math.max(boids.length, renderFrameCapacity(frame) * 2), shared);
+    }
+
+    const alpha = config.interpolate ? system.interpolationAlpha : 1;
+    const tintByBattery = config.useBattery && config.colorByBattery;
+    const { positions, colors, scales } = frame;
+
+    for (let i = 0; i < boids.length; i++) {
+        const boid = boids[i];
+        const i3 = i * 3;
+
+        // Position (blend between the last two simulation steps if enabled)
+        const prev = boid.previousPosition;
+        const pos = boid.position;
+        positions[i3] = prev.x + (pos.x - prev.x) * alpha;
+        positions[i3 + 1] = prev.y + (pos.y - prev.y) * alpha;
+        positions[i3 + 2] = prev.z + (pos.z - prev.z) * alpha;
+
+        // Scale based on visibility and light intensity
+        // If not visible or light is off, scale to zero.
+        const isHighlightedLeader = config.highlightLeaders && boid.isLeader;
+        scales[i] = boid.isVisible && boid.lightIntensity > 0
+            ? config.droneSize * boid.lightIntensity * (isHighlightedLeader ? 2.5 : 1)
+            : 0;
+
+        // Color modulated by the light intensity to make it dimmer or brighter
+        if (config.highlightCollisions && boid.inCollision) {
+            _color.copy(COLLISION_COLOR);
+        } else if (config.showGeofences && boid.geofenceBreach) {
+            _color.copy(GEOFENCE_BREACH_COLOR);
+        } else if (tintByBattery) {
+            _color.lerpColors(BATTERY_EMPTY_COLOR, BATTERY_FULL_COLOR, boid.batteryEnergy / config.batteryCapacity);
+        } else {
+            _color.copy(isHighlightedLeader ? LEADER_COLOR : boid.color);
+        }
+        _color.multiplyScalar(boid.lightIntensity);
+        colors[i3] = _color.r;
+        colors[i3 + 1] = _color.g;
+        colors[i3 + 2] = _color.b;
+    }
+
+    frame.count = boids.length;
+    frame.time = Math.max(0, system.simulationTime - (1 - alpha) * config.fixedTimeStep);
+    return frame;
+}
@@ -0,0 +1,159 @@
+import { Boid } from './Boid';
+import { BoidBuffers } from './BoidBuffers';
+import { BoidConfig } from './BoidConfig';
+import { SpatialIndex } from './SpatialIndex';
+
+export type SafetyEventKind = 'collision' | 'nearMiss';
+
+/**
+ * One logged safety event: a pair of drones coming closer than a radius
+ */
+export interface SafetyEvent {
+    time: number;           // Simulation time (s)
+    kind: SafetyEventKind;
+    idA: number;            // Boid ids, idA < idB
+    idB: number;
+    distance: number;       // Separation when the event was logged (m)
+    scene: string;          // Story scene at the time ('' outside the story)
+}
+
+// Closest drones examined per drone; more than this many within the near-miss radius is already a pile-up
+const MAX_PAIRS_PER_DRONE = 8;
+// Pair key: smaller id * ID_RANGE + larger id (ids stay below 2^26)
+const ID_RANGE = 1 << 26;
+
+/**
+ * Detects drones closer than `collisionRadius` (collision) or `nearMissRadius`
+ * (near miss) using the spatial index built for the neighbor search.
+ *
+ * A pair is logged once when it enters a band, not on every step it stays
+ * there. A pair that first came within the near-miss radius and later
+ * collides is logged twice, once per band. The log keeps the newest
+ * `safetyLogLimit` events; the totals count every event.
+ */
+export class SafetyMonitor {
+    events: SafetyEvent[] = [];
+    totals = {
+        collisions: 0,
+        nearMisses: 0
+    };
+
+    // State at the last check
+    activeCollisions = 0;       // Pairs currently within the collision radius
+    activeNearMisses = 0;       // Pairs currently within the near-miss radius (not colliding)
+    minSeparation = Infinity;   // Closest pair distance within the near-miss radius (m)
+
+    // Pairs inside a band at the previous / current check, keyed by pairKey
+    private previousPairs = new Map<number, SafetyEventKind>();
+    private currentPairs = new Map<number, SafetyEventKind>();
+    private found = new Int32Array(MAX_PAIRS_PER_DRONE);
+
+    /**
+     * Clear the log, totals and pair state
+     */
+    reset(): void {
+        this.events = [];
+        this.totals.collisions = 0;
+        this.totals.nearMisses = 0;
+        this.activeCollisions = 0;
+        this.activeNearMisses = 0;
+        this.minSeparation = Infinity;
+        this.previousPairs.clear();
+        this.currentPairs.clear();
+    }
+
+    /**
+     * Check every drone against its closest neighbors. `index` must be built
+     * from the current positions. Flags `inCollision` on each Boid.
+     */
+    check(
+        boids: Boid[],
+        buffers: BoidBuffers,
+        index: SpatialIndex,
+        config: BoidConfig,
+        time: number,
+        scene: string
+    ): void {
+        const positions = buffers.positions;
+        const collisionSq = config.collisionRadius * config.collisionRadius;
+        const current = this.currentPairs;
+        current.clear();
+        let collisions = 0;
+        let nearMisses = 0;
+        let minSq = Infinity;
+
+        for (const boid of boids) boid.inCollision = false;
+
+        for (let i = 0; i < boids.length; i++) {
+            const x = positions[i * 3];
+            const y = positions[i * 3 + 1];
+            const z = positions[i * 3 + 2];
+            const count = index.findNearest(x, y, z, config.nearMissRadius, MAX_PAIRS_PER_DRONE, this.found, 0, i);
+
+            for (let n = 0; n < count; n++) {
+                const j = this.found[n];
+                const a = boids[i];
+                const b = boids[j];
+                const key = a.id < b.id ? a.id * ID_RANGE + b.id : b.id * ID_RANGE + a.id;
+                if (current.has(key)) continue;
+
+                const dx = positions[j * 3] - x;
+                const dy = positions[j * 3 + 1] - y;
+                const dz = positions[j * 3 + 2] - z;
+                const distSq = dx * dx + dy * dy + dz * dz;
+                if (distSq < minSq) minSq = distSq;
+
+                const kind: SafetyEventKind = distSq < collisionSq ? 'collision' : 'nearMiss';
+                current.set(key, kind);
+                if (kind === 'collision') {
+                    collisions++;
+                    a.inCollision = true;
+                    b.inCollision = true;
+                } else {
+                    nearMisses++;
+                }
+
+                // Log on entering a band (or escalating from near miss to collision)
+                const before = this.previousPairs.get(key);
+                if (before === kind || (before === 'collision' && kind === 'nearMiss')) continue;
+                this.log({
+                    time,
+                    kind,
+                    idA: Math.min(a.id, b.id),
+                    idB: Math.max(a.id, b.id),
+                    distance: Math.sqrt(distSq),
+                    scene
+                }, config.safetyLogLimit);
+            }
+        }
+
+        this.activeCollisions = collisions;
+        this.activeNearMisses = nearMisses;
+        this.minSeparation = Math.sqrt(minSq);
+        this.currentPairs = this.previousPairs;
+        this.previousPairs = current;
+    }
+
+    /**
+     * Event log as CSV (one row per event, oldest first)
+     */
+    toCSV(): string {
+        const rows = ['time,kind,idA,idB,distance,scene'];
+        for (const e of this.events) {
+            rows.push(`${e.time.toFixed(3)},${e.kind},${e.idA},${e.idB},${e.distance.toFixed(3)},${e.scene}`);
+        }
+        return rows.join('\n');
+    }
+
+    private log(event: SafetyEvent, limit: number): void {
+        if (event.kind === 'collision') {
+            this.totals.collisions++;
+        } else {
+            this.totals.nearMisses++;
+        }
+        this.events.push(event);
+        if (this.events.length > limit) {
+            this.events.splice(0, this.events.length - limit);
+        }
+    }
+}
@@ -1,6 +1,43 @@
 import * as THREE from 'three';
 import { BoidSystem } from './BoidSystem';
 import { BoidConfig } from './BoidConfig';
+import { SeededRandom } from './SeededRandom';
+import { BoxObstacle, CylinderObstacle, Obstacle, SphereObstacle } from './Obstacle';
+import { ForceField, ForceFieldKind } from './ForceField';
+import { GeofenceKind, GeofenceZone } from './Geofence';
+import { RenderFrame, createRenderFrame, writeRenderFrame } from './RenderFrame';
+
+// Wind arrows per axis (x, y, z); y covers the lower half of the bounds
+const WIND_ARROW_GRID = [10, 4, 10];
+// Arrow length in seconds of travel at the local wind speed
+const WIND_ARROW_SECONDS = 8;
+
+// Force field marker colors and core size (m)
+const FORCE_FIELD_COLORS: Record<ForceFieldKind, number> = {
+    attractor: 0x44ff88,
+    repeller: 0xff4444,
+    vortex: 0x44ccff
+};
+const FORCE_FIELD_CORE_RADIUS = 10;
+
+// Geofence volume colors: permitted airspace and no-fly zones
+const GEOFENCE_COLORS: Record<GeofenceKind, number> = {
+    inclusion: 0x44ff88,
+    exclusion: 0xff4444
+};
+
+// Smallest instanced mesh kept when the swarm shrinks
+const MIN_MESH_CAPACITY = 64;
+
+/**
+ * What a click places while force field placement is on
+ */
+export interface ForceFieldPlacement {
+    kind: ForceFieldKind;
+    altitude: number;       // Height of the placement plane (0 = ground)
+    radius: number;
+    strength: number;
+}
 
 /**
  * Three.js scene management - drone simulation above city
@@ -13,17 +50,49 @@ export class Scene {
     // Boid rendering
     private boidSystem: BoidSystem;
     private instancedMesh: THREE.InstancedMesh;
+    private meshCapacity = 0;
     private dummy = new THREE.Object3D();
+    // Render data for the local simulation, reused every frame
+    private localFrame: RenderFrame = createRenderFrame(0);
+    // Worker-driven rendering: latest frame not yet drawn
+    private useExternalFrames = false;
+    private pendingFrame: RenderFrame | null = null;
 
     // Environment elements
     // Environment elements
     // private cityGround: THREE.Mesh;
     private buildings!: THREE.Group;
+    // Meshes for user-placed obstacles, keyed by obstacle id
+    private obstacleMeshes = new Map<number, THREE.Mesh>();
+    private obstacleMaterial = new THREE.MeshStandardMaterial({
+        color: 0x8844ff,
+        transparent: true,
+        opacity: 0.35,
+        roughness: 0.6
+    });
     // private skybox: THREE.Mesh;
 
+    // Force field markers (pickable core + radius shell), keyed by field id
+    private forceFieldMeshes = new Map<number, THREE.Group>();
+    private raycaster = new THREE.Raycaster();
+    private pointer = new THREE.Vector2();
+    private pickPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    private pickPoint = new THREE.Vector3();
+    // When set, a click places a force field on the horizontal plane at `altitude`
+    placement: ForceFieldPlacement | null = null;
+    // Called after force fields were placed or dragged
+    onForceFieldsChanged?: () => void;
+
+    // Geofence volumes, rebuilt whenever config.geofences changes
+    private geofenceGroup = new THREE.Group();
+    private geofenceSignature = '[]';
+
     // Debug visualization
     private neighborLines?: THREE.LineSegments;
     private velocityLines?: THREE.LineSegments;
+    // Wind field arrows (shaft + two head strokes each), created on first use
+    private windArrows?: THREE.LineSegments;
+    private windSample = new Float32Array(3);
 
     // Camera control
     private cameraAngle = 0;
@@ -64,6 +133,7 @@ export class Scene {
         // Create Boid instanced mesh
         this.instancedMesh = this.createBoidMesh(boidSystem.boids.length);
         this.scene.add(this.instancedMesh);
+        this.scene.add(this.geofenceGroup);
 
         // Window resize
         window.addEventListener('resize', () => this.onWindowResize());
@@ -205,6 +275,11 @@ export class Scene {
         this.scene.add(this.buildings);
         this.createBuildings();
 
+        // Buildings are solid for the swarm
+        this.boidSystem.clearObstacles('building');
+        this.buildings.updateMatrixWorld(true);
+        this.boidSystem.addObstaclesFromMeshes(this.buildings.children);
+
         // Add procedural background
         this.createBackground();
 
@@ -231,6 +306,10 @@ export class Scene {
         // Single gray material for all buildings
         const grayMaterial = new THREE.MeshStandardMaterial({ color: 0x666666, roughness: 0.75, metalness: 0.25 });
 
+        // Building layout is part of the simulated world, so it follows the config seed
+        // (with its own stream, independent of the swarm's)
+        const rng = SeededRandom.derive(this.boidSystem.config.seed, 1);
+
         // Create buildings around the boid bounds perimeter, leaving one side open.
         // We'll use the boidSystem bounds so buildings surround the active cube.
         const min = this.boidSystem.config.bounds.min;
@@ -253,9 +332,9 @@ export class Scene {
 
         // Helper to create a building at (x,z)
         const addBuildingAt = (x: number, z: number) => {
-            const width = 20 + Math.random() * 40;
-            const height = 50 + Math.random() * 200;
-            const depth = 20 + Math.random() * 40;
+            const width = 20 + rng.next() * 40;
+            const height = 50 + rng.next() * 200;
+            const depth = 20 + rng.next() * 40;
             const geometry = new THREE.BoxGeometry(width, height, depth);
             const building = new THREE.Mesh(geometry, grayMaterial);
             building.position.set(x, height / 2, z);
@@ -264,7 +343,7 @@ export class Scene {
             this.buildings.add(building);
 
             // Add subtle window lights on some buildings
-            if (Math.random() > 0.6) {
+            if (rng.next() > 0.6) {
                 const windowLight = new THREE.PointLight(0xffaa66, 0.4, 120);
                 windowLight.position.set(0, height * 0.6, 0);
                 building.add(windowLight);
@@ -300,30 +379,128 @@ export class Scene {
         }
     }
 
+    /**
+     * Add a visual for a user-placed obstacle
+     */
+    addObstacleMesh(obstacle: Obstacle): void {
+        let geometry: THREE.BufferGeometry;
+        const position = new THREE.Vector3();
+
+        if (obstacle instanceof SphereObstacle) {
+            geometry = new THREE.SphereGeometry(obstacle.radius, 24, 16);
+            position.copy(obstacle.center);
+        } else if (obstacle instanceof CylinderObstacle) {
+            geometry = new THREE.CylinderGeometry(obstacle.radius, obstacle.radius, obstacle.height, 24);
+            position.set(obstacle.base.x, obstacle.base.y + obstacle.height / 2, obstacle.base.z);
+        } else if (obstacle instanceof BoxObstacle) {
+            const size = obstacle.box.getSize(new THREE.Vector3());
+            geometry = new THREE.BoxGeometry(size.x, size.y, size.z);
+            obstacle.box.getCenter(position);
+        } else {
+            return;
+        }
+
+        const mesh = new THREE.Mesh(geometry, this.obstacleMaterial);
+        mesh.position.copy(position);
+        this.scene.add(mesh);
+        this.obstacleMeshes.set(obstacle.id, mesh);
+    }
+
+    /**
+     * Remove visuals for obstacles no longer in the BoidSystem registry
+     */
+    syncObstacleMeshes(): void {
+        const ids = new Set(this.boidSystem.obstacles.map(o => o.id));
+        for (const [id, mesh] of this.obstacleMeshes) {
+            if (!ids.has(id)) {
+                this.scene.remove(mesh);
+                mesh.geometry.dispose();
+                this.obstacleMeshes.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Create, move and remove force field markers to match the BoidSystem
+     */
+    syncForceFieldMeshes(): void {
+        const ids = new Set<number>();
+        for (const field of this.boidSystem.forceFields) {
+            ids.add(field.id);
+            let group = this.forceFieldMeshes.get(field.id);
+            if (group && group.userData.kind !== field.kind) {
+                this.removeForceFieldMesh(field.id);
+                group = undefined;
+            }
+            if (!group) {
+                group = this.createForceFieldMesh(field);
+                this.scene.add(group);
+                this.forceFieldMeshes.set(field.id, group);
+            }
+            group.position.copy(field.position);
+            group.children[1].scale.setScalar(field.radius);
+        }
+        for (const id of this.forceFieldMeshes.keys()) {
+            if (!ids.has(id)) this.removeForceFieldMesh(id);
+        }
+    }
+
+    private createForceFieldMesh(field: ForceField): THREE.Group {
+        const color = FORCE_FIELD_COLORS[field.kind];
+        const core = new THREE.Mesh(
+            new THREE.SphereGeometry(FORCE_FIELD_CORE_RADIUS, 16, 12),
+            new THREE.MeshBasicMaterial({ color })
+        );
+        core.userData.fieldId = field.id;
+        const shell = new THREE.Mesh(
+            new THREE.SphereGeometry(1, 24, 16),
+            new THREE.MeshBasicMaterial({ color, wireframe: true, transparent: true, opacity: 0.15 })
+        );
+        const group = new THREE.Group();
+        group.add(core, shell);
+        group.userData.kind = field.kind;
+        return group;
+    }
+
+    private removeForceFieldMesh(id: number): void {
+        const group = this.forceFieldMeshes.get(id);
+        if (!group) return;
+        this.scene.remove(group);
+        group.traverse(object => {
+            if (object instanceof THREE.Mesh) {
+                object.geometry.dispose();
+                object.material.dispose();
+            }
+        });
+        this.forceFieldMeshes.delete(id);
+    }
+
     /**
      * Create Boid instanced mesh
      */
     // Keep a reference to the boid material so UI can edit it
-    private boidMaterial!: THREE.MeshStandardMaterial;
+    private boidMaterial?: THREE.MeshStandardMaterial;
+    private boidGeometry?: THREE.SphereGeometry;
 
     private createBoidMesh(count: number): THREE.InstancedMesh {
         // For the story, we represent drones as simple points of light.
         // A sphere geometry is a good choice for this.
-        const geometry = new THREE.SphereGeometry(0.8, 8, 8);
+        // Geometry and material outlive mesh rebuilds, so material edits from the UI stick
+        this.boidGeometry ??= new THREE.SphereGeometry(0.8, 8, 8);
 
         // The material should be emissive to represent light.
-        const material = new THREE.MeshStandardMaterial({
+        this.boidMaterial ??= new THREE.MeshStandardMaterial({
             color: 0xffffff,
             emissive: 0xffffff,
             emissiveIntensity: 1.0,
             vertexColors: true, // allow per-instance colors via InstancedMesh.setColorAt
         });
 
-        // expose material for runtime editing
-        this.boidMaterial = material;
-
-        const instancedMesh = new THREE.InstancedMesh(geometry, material, count);
+        const instancedMesh = new THREE.InstancedMesh(this.boidGeometry, this.boidMaterial, count);
+        this.meshCapacity = count;
         instancedMesh.castShadow = false; // Lights don't cast shadows in this simple setup
+        // The instance bounding sphere is computed once and goes stale as the swarm moves
+        instancedMesh.frustumCulled = false;
 
         return instancedMesh;
     }
@@ -369,39 +546,186 @@ export class Scene {
     }
 
     /**
-     * Update Boid rendering
+     * Update Boid rendering from the local BoidSystem, or from the latest
+     * frame delivered by the simulation worker when one is attached
      */
     updateBoids(): void {
-        const boids = this.boidSystem.boids;
-        const tempColor = new THREE.Color();
+        let frame: RenderFrame;
+        if (this.useExternalFrames) {
+            // Only redraw when the worker delivered a new frame; otherwise keep the last one
+            if (!this.pendingFrame) return;
+            frame = this.pendingFrame;
+            this.pendingFrame = null;
+        } else {
+            frame = this.localFrame = writeRenderFrame(this.boidSystem, this.localFrame);
+        }
 
-        for (let i = 0; i < boids.length; i++) {
-            const boid = boids[i];
+        this.fitMeshCapacity(frame.count);
 
-            // Set position
-            this.dummy.position.copy(boid.position);
+        const tempColor = new THREE.Color();
+        const { positions, colors, scales } = frame;
 
-            // Set scale based on visibility and light intensity
-            // If not visible or light is off, scale to zero.
-            const scale = boid.isVisible && boid.lightIntensity > 0
-                ? this.boidSystem.config.droneSize * boid.lightIntensity
-                : 0;
-            this.dummy.scale.set(scale, scale, scale);
-            
+        for (let i = 0; i < frame.count; i++) {
+            const i3 = i * 3;
+            this.dummy.position.set(positions[i3], positions[i3 + 1], positions[i3 + 2]);
+            this.dummy.scale.setScalar(scales[i]);
             this.dummy.updateMatrix();
             this.instancedMesh.setMatrixAt(i, this.dummy.matrix);
 
-            // Set color and emissive intensity
-            tempColor.set(boid.color);
-            // We modulate the color by the light intensity to make it dimmer or brighter.
-            tempColor.multiplyScalar(boid.lightIntensity);
+            tempColor.setRGB(colors[i3], colors[i3 + 1], colors[i3 + 2]);
             this.instancedMesh.setColorAt(i, tempColor);
         }
 
+        this.instancedMesh.count = frame.count;
         this.instancedMesh.instanceMatrix.needsUpdate = true;
         if (this.instancedMesh.instanceColor) {
             this.instancedMesh.instanceColor.needsUpdate = true;
         }
+
+        this.updateWindArrows(frame.time);
+        this.updateGeofenceMeshes();
+    }
+
+    /**
+     * Draw the geofence zones as translucent volumes with outlined edges.
+     * Zones are compared by value, so edits, imports and worker mode all show up.
+     */
+    private updateGeofenceMeshes(): void {
+        const config = this.boidSystem.config;
+        this.geofenceGroup.visible = config.showGeofences;
+        const signature = JSON.stringify(config.geofences);
+        if (signature === this.geofenceSignature) return;
+        this.geofenceSignature = signature;
+
+        this.geofenceGroup.traverse(object => {
+            if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+                object.geometry.dispose();
+                object.material.dispose();
+            }
+        });
+        this.geofenceGroup.clear();
+        config.geofences.forEach(zone => this.geofenceGroup.add(this.createGeofenceMesh(zone)));
+    }
+
+    private createGeofenceMesh(zone: GeofenceZone): THREE.Group {
+        const height = Math.max(0.1, zone.ceiling - zone.floor);
+        let geometry: THREE.BufferGeometry;
+        if (zone.shape === 'cylinder') {
+            geometry = new THREE.CylinderGeometry(zone.radius, zone.radius, height, 48, 1, true);
+            geometry.translate(zone.center[0], zone.floor + height / 2, zone.center[1]);
+        } else {
+            // Shape in the x / -z plane, extruded upwards after rotating it flat
+            const shape = new THREE.Shape(zone.points.map(([x, z]) => new THREE.Vector2(x, -z)));
+            geometry = new THREE.ExtrudeGeometry(shape, { depth: height, bevelEnabled: false });
+            geometry.rotateX(-Math.PI / 2);
+            geometry.translate(0, zone.floor, 0);
+        }
+
+        const color = GEOFENCE_COLORS[zone.kind];
+        const volume = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+            color,
+            transparent: true,
+            opacity: 0.08,
+            side: THREE.DoubleSide,
+            depthWrite: false
+        }));
+        const edges = new THREE.LineSegments(
+            new THREE.EdgesGeometry(geometry, 30),
+            new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.5 })
+        );
+        const group = new THREE.Group();
+        group.add(volume, edges);
+        return group;
+    }
+
+    /**
+     * Draw the wind field on a coarse grid over the bounds, at simulation time `time`.
+     * Arrows show where the air will be in WIND_ARROW_SECONDS; color goes from
+     * blue (calm) to red (twice the mean wind speed).
+     */
+    private updateWindArrows(time: number): void {
+        const config = this.boidSystem.config;
+        const visible = config.useWind && config.showWindArrows;
+        if (!visible) {
+            if (this.windArrows) this.windArrows.visible = false;
+            return;
+        }
+
+        const [nx, ny, nz] = WIND_ARROW_GRID;
+        if (!this.windArrows) {
+            const vertices = nx * ny * nz * 6;
+            const geometry = new THREE.BufferGeometry();
+            geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertices * 3), 3));
+            geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(vertices * 3), 3));
+            this.windArrows = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ vertexColors: true }));
+            this.windArrows.frustumCulled = false;
+            this.scene.add(this.windArrows);
+        }
+        this.windArrows.visible = true;
+
+        // Works in worker mode too: the field only depends on config, obstacles and time
+        const wind = this.boidSystem.wind;
+        wind.beginStep(config, this.boidSystem.obstacles);
+
+        const { min, max } = config.bounds;
+        const positions = this.windArrows.geometry.getAttribute('position') as THREE.BufferAttribute;
+        const colors = this.windArrows.geometry.getAttribute('color') as THREE.BufferAttribute;
+        const w = this.windSample;
+        const color = new THREE.Color();
+        const reference = Math.max(0.1, config.windSpeed * 2);
+        let v = 0;
+
+        const put = (x: number, y: number, z: number) => {
+            positions.setXYZ(v, x, y, z);
+            colors.setXYZ(v, color.r, color.g, color.b);
+            v++;
+        };
+
+        for (let ix = 0; ix < nx; ix++) {
+            const x = min.x + (ix + 0.5) / nx * (max.x - min.x);
+            for (let iy = 0; iy < ny; iy++) {
+                const y = min.y + (iy + 0.5) / ny * (max.y - min.y) * 0.5;
+                for (let iz = 0; iz < nz; iz++) {
+                    const z = min.z + (iz + 0.5) / nz * (max.z - min.z);
+                    const speed = wind.sample(x, y, z, time, config, w);
+                    color.setRGB(Math.min(1, speed / reference), 0.4, Math.max(0, 1 - speed / reference));
+
+                    const tx = x + w[0] * WIND_ARROW_SECONDS;
+                    const ty = y + w[1] * WIND_ARROW_SECONDS;
+                    const tz = z + w[2] * WIND_ARROW_SECONDS;
+                    // Head strokes: back along the arrow, spread sideways in the horizontal plane
+                    const head = speed * WIND_ARROW_SECONDS * 0.25;
+                    const ux = speed > 0 ? w[0] / speed : 0;
+                    const uy = speed > 0 ? w[1] / speed : 0;
+                    const uz = speed > 0 ? w[2] / speed : 0;
+
+                    put(x, y, z);
+                    put(tx, ty, tz);
+                    put(tx, ty, tz);
+                    put(tx - (ux - uz * 0.5) * head, ty - uy * head, tz - (uz + ux * 0.5) * head);
+                    put(tx, ty, tz);
+                    put(tx - (ux + uz * 0.5) * head, ty - uy * head, tz - (uz - ux * 0.5) * head);
+                }
+            }
+        }
+
+        positions.needsUpdate = true;
+        colors.needsUpdate = true;
+    }
+
+    /**
+     * Switch between drawing the local BoidSystem and frames pushed by a worker
+     */
+    setExternalFrames(enabled: boolean): void {
+        this.useExternalFrames = enabled;
+        this.pendingFrame = null;
+    }
+
+    /**
+     * Queue a worker frame to be drawn on the next render
+     */
+    pushFrame(frame: RenderFrame): void {
+        this.pendingFrame = frame;
     }
 
     /**
@@ -458,15 +782,40 @@ export class Scene {
     private setupMouseInteraction(): void {
         let isDragging = false;
         let previousMousePosition = { x: 0, y: 0 };
+        // Force field being dragged (moves in the horizontal plane at its height)
+        let draggedField: ForceField | null = null;
 
         this.renderer.domElement.addEventListener('mousedown', (e) => {
+            if (e.button === 0) {
+                this.setPointerRay(e);
+                if (this.placement) {
+                    if (this.rayAtHeight(this.placement.altitude, this.pickPoint)) {
+                        const { kind, radius, strength } = this.placement;
+                        this.boidSystem.placeForceField(kind, this.pickPoint, radius, strength);
+                        this.syncForceFieldMeshes();
+                        this.onForceFieldsChanged?.();
+                    }
+                    return;
+                }
+                draggedField = this.pickForceField();
+                if (draggedField) return;
+            }
+
             isDragging = true;
             this.autoRotate = false;
             previousMousePosition = { x: e.clientX, y: e.clientY };
         });
 
         this.renderer.domElement.addEventListener('mousemove', (e) => {
-            if (isDragging) {
+            if (draggedField) {
+                this.setPointerRay(e);
+                if (this.rayAtHeight(draggedField.position.y, this.pickPoint)) {
+                    draggedField.position.x = this.pickPoint.x;
+                    draggedField.position.z = this.pickPoint.z;
+                    this.syncForceFieldMeshes();
+                    this.onForceFieldsChanged?.();
+                }
+            } else if (isDragging) {
                 const deltaX = e.clientX - previousMousePosition.x;
                 const deltaY = e.clientY - previousMousePosition.y;
 
@@ -484,6 +833,7 @@ export class Scene {
 
         this.renderer.domElement.addEventListener('mouseup', () => {
             isDragging = false;
+            draggedField = null;
         });
 
         // Mouse wheel zoom
@@ -495,6 +845,36 @@ export class Scene {
         });
     }
 
+    /**
+     * Aim the raycaster through the mouse position
+     */
+    private setPointerRay(e: MouseEvent): void {
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        this.pointer.set(
+            ((e.clientX - rect.left) / rect.width) * 2 - 1,
+            -((e.clientY - rect.top) / rect.height) * 2 + 1
+        );
+        this.raycaster.setFromCamera(this.pointer, this.camera);
+    }
+
+    /**
+     * Where the pointer ray crosses the horizontal plane at height `y` (false if it doesn't)
+     */
+    private rayAtHeight(y: number, out: THREE.Vector3): boolean {
+        this.pickPlane.constant = -y;
+        return this.raycaster.ray.intersectPlane(this.pickPlane, out) !== null;
+    }
+
+    /**
+     * Force field whose core is under the pointer, if any
+     */
+    private pickForceField(): ForceField | null {
+        const cores = [...this.forceFieldMeshes.values()].map(group => group.children[0]);
+        const hit = this.raycaster.intersectObjects(cores, false)[0];
+        if (!hit) return null;
+        return this.boidSystem.forceFields.find(f => f.id === hit.object.userData.fieldId) ?? null;
+    }
+
     /**
      * Toggle auto rotation
      */
@@ -503,7 +883,19 @@ export class Scene {
     }
 
     /**
-     * Rebuild instanced mesh (when Boid count changes)
+     * Grow the instanced mesh (at least doubling) when more drones are drawn than
+     * it holds, and shrink it when less than a quarter of it is in use
+     */
+    private fitMeshCapacity(count: number): void {
+        if (count > this.meshCapacity) {
+            this.rebuildInstancedMesh(Math.max(count, this.meshCapacity * 2));
+        } else if (this.meshCapacity > MIN_MESH_CAPACITY && count < this.meshCapacity / 4) {
+            this.rebuildInstancedMesh(Math.max(MIN_MESH_CAPACITY, count * 2));
+        }
+    }
+
+    /**
+     * Replace the instanced mesh with one holding `count` drones
      */
     rebuildInstancedMesh(count: number): void {
         this.scene.remove(this.instancedMesh);
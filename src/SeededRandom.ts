@@ -0,0 +1,65 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ * The same seed always yields the same sequence, so simulation runs are reproducible.
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number = 1) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Restart the sequence from a seed
+     */
+    reseed(seed: number): void {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Uniform float in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Uniform float in [min, max)
+     */
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * Standard normal sample (mean 0, standard deviation 1), Box-Muller
+     */
+    gaussian(): number {
+        const u = 1 - this.next();
+        const v = this.next();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    /**
+     * Copy of this generator at its current position in the sequence
+     */
+    clone(): SeededRandom {
+        const copy = new SeededRandom();
+        copy.state = this.state;
+        return copy;
+    }
+
+    /**
+     * Independent generator derived from a seed and a salt, without consuming
+     * values from any existing sequence
+     */
+    static derive(seed: number, salt: number): SeededRandom {
+        let h = (seed ^ Math.imul(salt, 0x9e3779b1)) >>> 0;
+        h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+        h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+        return new SeededRandom((h ^ (h >>> 16)) >>> 0);
+    }
+}
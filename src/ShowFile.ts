@@ -0,0 +1,221 @@
+import { Vector3 } from 'three';
+import demo from './shows/demo.json';
+
+/**
+ * Declarative drone show: the performers, their color groups and a list of
+ * scenes, played by StoryController. Plain JSON, so a new show is a data file
+ * (see shows/demo.json) loaded with Load Show File, `npm run sim -- --show`, or imported.
+ */
+export interface ShowFile {
+    name: string;
+    performers: number;             // Drones in the formations
+    spares?: number;                // Extra drones parked dark behind the show, flown in to replace failed performers
+    groups: ShowGroup[];
+    scenes: ShowScene[];
+}
+
+/**
+ * Color group. Performers are split into consecutive runs by ratio (the
+ * remainder joins the largest group) when a 'groupRing' scene starts.
+ */
+export interface ShowGroup {
+    ratio: number;
+    color: string;                  // CSS color, e.g. '#ff3b30'
+}
+
+export interface ShowScene {
+    name: string;                   // Labels safety events, metrics and the formation report
+    duration: number;               // Seconds
+    formation: FormationSource;
+    lights: LightEffect;
+    transition?: TransitionStyle;   // How drones move to the new formation (default 'lerp')
+    transitionTime?: number;        // Seconds the 'lerp' move takes (default the whole scene)
+    easing?: Easing;                // Shape of the 'lerp' move (default 'linear')
+}
+
+/**
+ * Where the performers go. Points are in meters; [x, y, z] with y up.
+ */
+export type FormationSource =
+    | { type: 'hold' }                                                      // Stay where they are
+    | { type: 'point'; center: number[] }                                   // Everyone converges on one point
+    | { type: 'groupRing'; center: number[]; radius: number }              // Each color group gathers at its spot on a level ring
+    | { type: 'circle'; center: number[]; radius: number }                 // Upright circle facing +z
+    | { type: 'star'; center: number[]; radius: number; lobes?: number }   // Upright star facing +z
+    | { type: 'points'; points: number[][] };                               // Explicit points; performers beyond them go dark
+
+/**
+ * Performer lights. `color` is 'group' (the performer's group color), a CSS
+ * color, or omitted to keep the current colors.
+ */
+export type LightEffect =
+    | { type: 'solid'; intensity?: number; color?: string }
+    | { type: 'pulse'; period: number; wave?: number; color?: string }    // wave: cycles of phase across the formation
+    | { type: 'off' };
+
+/**
+ * - 'direct':  targets jump to the new points and drones fly straight there
+ * - 'lerp':    targets glide from the previous formation over transitionTime
+ * - 'planned': separated, staggered paths from TransitionPlanner
+ */
+export type TransitionStyle = 'direct' | 'lerp' | 'planned';
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+const FORMATIONS = ['hold', 'point', 'groupRing', 'circle', 'star', 'points'];
+const LIGHTS = ['solid', 'pulse', 'off'];
+const TRANSITIONS = ['direct', 'lerp', 'planned'];
+const EASINGS = ['linear', 'easeIn', 'easeOut', 'easeInOut'];
+
+/**
+ * Check parsed JSON against the show format. Throws an Error naming the
+ * first problem found.
+ */
+export function parseShowFile(data: unknown): ShowFile {
+    const show = data as ShowFile;
+    if (!show || typeof show !== 'object') throw new Error('Show file: not a JSON object');
+    if (!isCount(show.performers) || show.performers === 0) throw new Error('Show file: "performers" must be a positive integer');
+    if (show.spares !== undefined && !isCount(show.spares)) throw new Error('Show file: "spares" must be a non-negative integer');
+    if (!Array.isArray(show.groups) || show.groups.length === 0) throw new Error('Show file: "groups" must list at least one group');
+    show.groups.forEach((g, i) => {
+        if (!isFiniteNumber(g.ratio) || g.ratio < 0) throw new Error(`Show file: group ${i} needs a non-negative "ratio"`);
+        if (typeof g.color !== 'string') throw new Error(`Show file: group ${i} needs a "color" string`);
+    });
+    if (!Array.isArray(show.scenes) || show.scenes.length === 0) throw new Error('Show file: "scenes" must list at least one scene');
+
+    show.scenes.forEach((scene, i) => {
+        const where = `scene ${i}${typeof scene.name === 'string' ? ` ("${scene.name}")` : ''}`;
+        if (typeof scene.name !== 'string') throw new Error(`Show file: ${where} needs a "name"`);
+        if (!isFiniteNumber(scene.duration) || !(scene.duration > 0)) throw new Error(`Show file: ${where} needs a positive "duration"`);
+        if (!scene.formation || !FORMATIONS.includes(scene.formation.type)) {
+            throw new Error(`Show file: ${where} formation type must be one of ${FORMATIONS.join(', ')}`);
+        }
+        if (!scene.lights || !LIGHTS.includes(scene.lights.type)) {
+            throw new Error(`Show file: ${where} lights type must be one of ${LIGHTS.join(', ')}`);
+        }
+        if (scene.transition !== undefined && !TRANSITIONS.includes(scene.transition)) {
+            throw new Error(`Show file: ${where} transition must be one of ${TRANSITIONS.join(', ')}`);
+        }
+        if (scene.easing !== undefined && !EASINGS.includes(scene.easing)) {
+            throw new Error(`Show file: ${where} easing must be one of ${EASINGS.join(', ')}`);
+        }
+        if (scene.transitionTime !== undefined && (!isFiniteNumber(scene.transitionTime) || scene.transitionTime < 0)) {
+            throw new Error(`Show file: ${where} "transitionTime" must be a non-negative number`);
+        }
+
+        const formation = scene.formation;
+        if (formation.type !== 'hold' && formation.type !== 'points' && !isPoint(formation.center)) throw new Error(`Show file: ${where} formation "center" must be [x, y, z]`);
+        if ((formation.type === 'circle' || formation.type === 'star' || formation.type === 'groupRing') &&
+            (!isFiniteNumber(formation.radius) || formation.radius <= 0)) {
+            throw new Error(`Show file: ${where} formation needs a positive "radius"`);
+        }
+        if (formation.type === 'star' && formation.lobes !== undefined && !isFiniteNumber(formation.lobes)) {
+            throw new Error(`Show file: ${where} formation "lobes" must be a number`);
+        }
+        if (formation.type === 'points' && (!Array.isArray(formation.points) || !formation.points.every(isPoint))) {
+            throw new Error(`Show file: ${where} formation "points" must be a list of [x, y, z]`);
+        }
+
+        const lights = scene.lights;
+        if ('color' in lights && lights.color !== undefined && typeof lights.color !== 'string') {
+            throw new Error(`Show file: ${where} lights "color" must be a string`);
+        }
+        if (lights.type === 'solid' && lights.intensity !== undefined && !isFiniteNumber(lights.intensity)) {
+            throw new Error(`Show file: ${where} lights "intensity" must be a number`);
+        }
+        if (lights.type === 'pulse') {
+            if (!isFiniteNumber(lights.period) || lights.period <= 0) throw new Error(`Show file: ${where} pulse lights need a positive "period"`);
+            if (lights.wave !== undefined && !isFiniteNumber(lights.wave)) throw new Error(`Show file: ${where} lights "wave" must be a number`);
+        }
+    });
+    return show;
+}
+
+/**
+ * The built-in show (a fresh copy, so callers may edit it)
+ */
+export function demoShow(): ShowFile {
+    return parseShowFile(structuredClone(demo));
+}
+
+/**
+ * Formation point of each of `count` slots, or null for 'hold'.
+ * `slotGroups` holds the group index of each slot (used by 'groupRing').
+ */
+export function formationPoints(source: FormationSource, count: number, groupCount: number, slotGroups: readonly number[]): Vector3[] | null {
+    switch (source.type) {
+        case 'hold':
+            return null;
+        case 'point':
+            return Array.from({ length: count }, () => toVector(source.center));
+        case 'groupRing':
+            return Array.from({ length: count }, (_, i) => {
+                const angle = (slotGroups[i] / groupCount) * Math.PI * 2;
+                return toVector(source.center).add(new Vector3(Math.cos(angle) * source.radius, 0, Math.sin(angle) * source.radius));
+            });
+        case 'circle':
+            return Array.from({ length: count }, (_, i) => {
+                const angle = i * (2 * Math.PI) / count;
+                return toVector(source.center).add(new Vector3(source.radius * Math.cos(angle), source.radius * Math.sin(angle), 0));
+            });
+        case 'star':
+            return Array.from({ length: count }, (_, i) => {
+                const angle = (i / Math.max(1, count)) * Math.PI * 2;
+                // A cosine radial modulation gives the points; keep a minimum radius so the center isn't empty
+                const radialFactor = 0.5 + 0.5 * Math.cos((source.lobes ?? 5) * angle);
+                const r = source.radius * (0.3 + 0.7 * radialFactor);
+                return toVector(source.center).add(new Vector3(r * Math.sin(angle), r * Math.cos(angle), 0));
+            });
+        case 'points':
+            return source.points.slice(0, count).map(toVector);
+    }
+}
+
+/**
+ * Light level (0-1) of the performer in slot `index` of `count`, `time` seconds into the scene
+ */
+export function lightLevel(effect: LightEffect, time: number, index: number, count: number): number {
+    switch (effect.type) {
+        case 'solid':
+            return effect.intensity ?? 1;
+        case 'pulse': {
+            const phase = 2 * Math.PI * (effect.wave ?? 0) * index / Math.max(1, count);
+            return Math.sin(2 * Math.PI * time / effect.period + phase) * 0.5 + 0.5;
+        }
+        case 'off':
+            return 0;
+    }
+}
+
+/**
+ * Map linear progress (0-1) through an easing curve
+ */
+export function ease(easing: Easing, x: number): number {
+    switch (easing) {
+        case 'linear':
+            return x;
+        case 'easeIn':
+            return x * x * x;
+        case 'easeOut':
+            return 1 - (1 - x) ** 3;
+        case 'easeInOut':
+            return x < 0.5 ? 4 * x * x * x : 1 - (-2 * x + 2) ** 3 / 2;
+    }
+}
+
+function toVector(p: number[]): Vector3 {
+    return new Vector3(p[0], p[1], p[2]);
+}
+
+function isPoint(p: unknown): boolean {
+    return Array.isArray(p) && p.length === 3 && p.every(isFiniteNumber);
+}
+
+// JSON.parse turns out-of-range numbers such as 1e999 into Infinity
+function isFiniteNumber(n: unknown): n is number {
+    return typeof n === 'number' && Number.isFinite(n);
+}
+
+function isCount(n: unknown): n is number {
+    return Number.isInteger(n) && (n as number) >= 0;
+}
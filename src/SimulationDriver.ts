@@ -0,0 +1,91 @@
+import { BoidConfig } from './BoidConfig';
+import { BoidSystem } from './BoidSystem';
+import { deserializeForceField, SerializedForceField } from './ForceField';
+import { deserializeObstacle, SerializedObstacle } from './Obstacle';
+import { ShowFile } from './ShowFile';
+import { StoryController } from './StoryController';
+
+/**
+ * Everything needed to start a simulation without a scene
+ */
+export interface SimulationSetup {
+    config?: string;                     // BoidSystem.exportConfig() JSON (defaults if omitted)
+    boidCount: number;
+    show: ShowFile;
+    obstacles?: SerializedObstacle[];
+    forceFields?: SerializedForceField[];
+}
+
+/**
+ * Runs a BoidSystem and its show without rendering. Shared by the simulation
+ * worker and the command-line runner (cli.ts), so both step the swarm and
+ * switch the story on and off exactly as the main thread does.
+ */
+export class SimulationDriver {
+    readonly boidSystem: BoidSystem;
+    readonly storyController: StoryController;
+
+    constructor(setup: SimulationSetup) {
+        this.boidSystem = new BoidSystem(new BoidConfig());
+        if (setup.config) this.boidSystem.importConfig(setup.config);
+        this.boidSystem.initializeBoids(setup.boidCount);
+        this.setObstacles(setup.obstacles ?? []);
+        this.setForceFields(setup.forceFields ?? []);
+        this.storyController = new StoryController(this.boidSystem, setup.show);
+    }
+
+    /**
+     * Advance by `deltaTime` seconds in fixed steps, driving the story once per step.
+     * Returns the number of steps taken.
+     */
+    advance(deltaTime: number): number {
+        return this.boidSystem.update(deltaTime, (dt) => this.storyController.update(dt));
+    }
+
+    /**
+     * Run exactly one fixed step, driving the story first
+     */
+    step(): void {
+        const dt = this.boidSystem.config.fixedTimeStep;
+        this.storyController.update(dt);
+        this.boidSystem.step(dt);
+    }
+
+    /**
+     * Start the story (flocking off) or stop it and scatter the swarm again
+     */
+    setStoryRunning(running: boolean): void {
+        if (running) {
+            this.storyController.start();
+            this.boidSystem.config.enableFlocking = false;
+        } else {
+            this.storyController.stop();
+            this.boidSystem.config.enableFlocking = true;
+            this.boidSystem.reset();
+        }
+    }
+
+    /**
+     * Replace the show, stopping the current one and letting the swarm flock again
+     */
+    loadShow(show: ShowFile): void {
+        if (this.storyController.isPlaying()) this.setStoryRunning(false);
+        this.storyController.load(show);
+    }
+
+    /**
+     * Replace the obstacle registry
+     */
+    setObstacles(obstacles: SerializedObstacle[]): void {
+        this.boidSystem.clearObstacles();
+        obstacles.forEach(o => this.boidSystem.addObstacle(deserializeObstacle(o)));
+    }
+
+    /**
+     * Replace the force fields
+     */
+    setForceFields(forceFields: SerializedForceField[]): void {
+        this.boidSystem.clearForceFields();
+        forceFields.forEach(f => this.boidSystem.addForceField(deserializeForceField(f)));
+    }
+}
@@ -0,0 +1,187 @@
+import { BoidSystem, BoidSystemStats } from './BoidSystem';
+import { FaultType } from './FaultInjector';
+import { serializeForceField } from './ForceField';
+import { serializeObstacle } from './Obstacle';
+import { RenderFrame } from './RenderFrame';
+import { ShowFile } from './ShowFile';
+import { WorkerRequest, WorkerResponse } from './WorkerProtocol';
+
+/**
+ * Main-thread handle for the simulation worker.
+ * Sends one tick per animation frame (accumulating time while the worker is busy)
+ * and keeps the latest render frame and stats it sends back.
+ */
+export class SimulationWorkerClient {
+    private worker: Worker;
+    private boidSystem: BoidSystem;
+    // Frames are shared (SharedArrayBuffer) when the page is cross-origin isolated
+    readonly shared: boolean;
+
+    private awaitingFrame = false;
+    private pendingTime = 0;
+    private latestFrame: RenderFrame | null = null;
+    // Last drawn frame, sent back with the next tick so the worker can reuse its buffers
+    private returnFrame: RenderFrame | null = null;
+
+    // Stats from the most recent worker step
+    stats: BoidSystemStats | null = null;
+    // Callers waiting for the safety log, answered in request order
+    private safetyLogRequests: ((csv: string) => void)[] = [];
+    // Callers waiting for the metrics history, answered in request order
+    private metricsLogRequests: ((csv: string) => void)[] = [];
+    // Callers waiting for the geofence breach log, answered in request order
+    private geofenceLogRequests: ((csv: string) => void)[] = [];
+
+    constructor(boidSystem: BoidSystem, show: ShowFile) {
+        this.boidSystem = boidSystem;
+        this.shared = typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated === true;
+        this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.onMessage(event.data);
+
+        this.post({
+            type: 'init',
+            config: boidSystem.exportConfig(),
+            boidCount: boidSystem.boids.length,
+            show,
+            obstacles: boidSystem.obstacles.map(serializeObstacle),
+            forceFields: boidSystem.forceFields.map(serializeForceField),
+            shared: this.shared
+        });
+    }
+
+    /**
+     * Advance the worker simulation by `deltaTime` seconds
+     */
+    tick(deltaTime: number): void {
+        this.pendingTime += deltaTime;
+        if (this.awaitingFrame) return;
+
+        const frame = this.shared ? null : this.returnFrame;
+        this.returnFrame = null;
+        const message: WorkerRequest = { type: 'tick', dt: this.pendingTime, frame };
+        if (frame) {
+            this.worker.postMessage(message, [frame.positions.buffer, frame.colors.buffer, frame.scales.buffer]);
+        } else {
+            this.worker.postMessage(message);
+        }
+
+        this.pendingTime = 0;
+        this.awaitingFrame = true;
+    }
+
+    /**
+     * Latest frame not yet drawn (null if none arrived since the last call)
+     */
+    takeFrame(): RenderFrame | null {
+        const frame = this.latestFrame;
+        this.latestFrame = null;
+        if (frame) this.returnFrame = frame;
+        return frame;
+    }
+
+    /**
+     * Forward the current BoidSystem configuration
+     */
+    syncConfig(): void {
+        this.post({ type: 'config', config: this.boidSystem.exportConfig() });
+    }
+
+    /**
+     * Forward the current obstacle registry
+     */
+    syncObstacles(): void {
+        this.post({ type: 'obstacles', obstacles: this.boidSystem.obstacles.map(serializeObstacle) });
+    }
+
+    /**
+     * Forward the current force fields (sent on every drag step, so keep them few)
+     */
+    syncForceFields(): void {
+        this.post({ type: 'forceFields', forceFields: this.boidSystem.forceFields.map(serializeForceField) });
+    }
+
+    initializeBoids(count: number): void {
+        this.post({ type: 'initializeBoids', count });
+    }
+
+    reset(): void {
+        this.post({ type: 'reset' });
+    }
+
+    rechargeAll(): void {
+        this.post({ type: 'recharge' });
+    }
+
+    /**
+     * Fail drone `id` (random if null) after `delay` seconds of simulation time
+     */
+    injectFault(fault: FaultType, id: number | null, delay: number): void {
+        this.post({ type: 'fault', fault, id, delay });
+    }
+
+    setStoryRunning(running: boolean): void {
+        this.post({ type: 'story', running });
+    }
+
+    /**
+     * Replace the worker's show (stops the current one)
+     */
+    loadShow(show: ShowFile): void {
+        this.post({ type: 'show', show });
+    }
+
+    /**
+     * Fetch the worker's safety event log as CSV
+     */
+    getSafetyLog(): Promise<string> {
+        return new Promise(resolve => {
+            this.safetyLogRequests.push(resolve);
+            this.post({ type: 'safetyLog' });
+        });
+    }
+
+    /**
+     * Fetch the worker's swarm metrics history as CSV
+     */
+    getMetricsLog(): Promise<string> {
+        return new Promise(resolve => {
+            this.metricsLogRequests.push(resolve);
+            this.post({ type: 'metricsLog' });
+        });
+    }
+
+    /**
+     * Fetch the worker's geofence breach log as CSV
+     */
+    getGeofenceLog(): Promise<string> {
+        return new Promise(resolve => {
+            this.geofenceLogRequests.push(resolve);
+            this.post({ type: 'geofenceLog' });
+        });
+    }
+
+    /**
+     * Stop the worker
+     */
+    terminate(): void {
+        this.worker.terminate();
+    }
+
+    private post(message: WorkerRequest): void {
+        this.worker.postMessage(message);
+    }
+
+    private onMessage(message: WorkerResponse): void {
+        if (message.type === 'frame') {
+            this.latestFrame = message.frame;
+            this.stats = message.stats;
+            this.awaitingFrame = false;
+        } else if (message.type === 'safetyLog') {
+            this.safetyLogRequests.shift()?.(message.csv);
+        } else if (message.type === 'metricsLog') {
+            this.metricsLogRequests.shift()?.(message.csv);
+        } else if (message.type === 'geofenceLog') {
+            this.geofenceLogRequests.shift()?.(message.csv);
+        }
+    }
+}
@@ -1,112 +1,220 @@
-import { Vector3 } from 'three';
-import { Boid } from './Boid';
+import { NearestCollector, SpatialIndex, SpatialIndexStats } from './SpatialIndex';
 
 /**
  * Spatial hash grid - optimize neighbor search performance
  * Divide 3D space into grids, only check Boids in adjacent grids
+ *
+ * Stores Boid slot indices (see BoidBuffers). Cells are keyed by a packed integer
+ * and hashed into a fixed table of buckets; each bucket is an intrusive linked list
+ * (`bucketHeads` + `nextInBucket`). A rebuild only writes into reused typed arrays.
  */
-export class SpatialHash {
+
+// Cell coordinates are wrapped to 10 bits per axis and packed into a 30-bit key.
+// Cells 1024 apart share a key; that only adds far-away candidates, never drops one.
+const CELL_BITS = 10;
+const CELL_MASK = (1 << CELL_BITS) - 1;
+
+export class SpatialHash implements SpatialIndex {
+    readonly type = 'hash';
     private cellSize: number;
-    private grid: Map<string, Boid[]>;
+    // Bucket -> first slot (-1 if empty); table size is a power of two
+    private bucketHeads = new Int32Array(0);
+    private bucketBits = 0;
+    // Slot -> next slot in the same bucket (-1 ends the list)
+    private nextInBucket = new Int32Array(0);
+    // Slot -> packed key of its cell (buckets can hold several cells)
+    private slotCell = new Int32Array(0);
+    private positions: Float32Array = new Float32Array(0);
+    private count = 0;
+
+    private nearest = new NearestCollector();
+
+    // Query cost since the last rebuild
+    private queryCount = 0;
+    private cellsVisited = 0;
+    private candidatesTested = 0;
 
     constructor(cellSize: number) {
         this.cellSize = cellSize;
-        this.grid = new Map();
     }
 
     /**
-     * Clear grid
+     * Change the cell size (takes effect from the next rebuild)
      */
-    clear(): void {
-        this.grid.clear();
+    setCellSize(cellSize: number): void {
+        this.cellSize = cellSize;
     }
 
     /**
-     * Insert Boid into grid
+     * Rebuild the grid from packed [x, y, z] positions of the first `count` slots
      */
-    insert(boid: Boid): void {
-        const key = this.getKey(boid.position);
-
-        if (!this.grid.has(key)) {
-            this.grid.set(key, []);
+    build(positions: Float32Array, count: number): void {
+        this.positions = positions;
+        this.count = count;
+
+        if (this.nextInBucket.length < count) {
+            const capacity = Math.max(count, this.nextInBucket.length * 2);
+            this.nextInBucket = new Int32Array(capacity);
+            this.slotCell = new Int32Array(capacity);
+        }
+        // About two buckets per Boid keeps chains short
+        let bits = 6;
+        while ((1 << bits) < count * 2) bits++;
+        if (bits !== this.bucketBits) {
+            this.bucketBits = bits;
+            this.bucketHeads = new Int32Array(1 << bits);
+        }
+        this.bucketHeads.fill(-1);
+
+        for (let i = 0; i < count; i++) {
+            const key = this.cellKey(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+            const bucket = this.bucketOf(key);
+            this.slotCell[i] = key;
+            this.nextInBucket[i] = this.bucketHeads[bucket];
+            this.bucketHeads[bucket] = i;
         }
 
-        this.grid.get(key)!.push(boid);
+        this.queryCount = 0;
+        this.cellsVisited = 0;
+        this.candidatesTested = 0;
     }
 
     /**
-     * Find nearby Boids
+     * Find nearby Boid slots (everything in the cells overlapping the query cube,
+     * so a superset of those within `radius`); fills `out` and returns the count
      */
-    findNearby(position: Vector3, radius: number): Boid[] {
-        const nearby: Boid[] = [];
+    findNearby(x: number, y: number, z: number, radius: number, out: number[]): number {
+        out.length = 0;
         const cellRadius = Math.ceil(radius / this.cellSize);
 
-        const centerCell = this.positionToCell(position);
+        const cx = Math.floor(x / this.cellSize);
+        const cy = Math.floor(y / this.cellSize);
+        const cz = Math.floor(z / this.cellSize);
 
         // Check adjacent grids
-        for (let x = -cellRadius; x <= cellRadius; x++) {
-            for (let y = -cellRadius; y <= cellRadius; y++) {
-                for (let z = -cellRadius; z <= cellRadius; z++) {
-                    const key = this.cellToKey(
-                        centerCell.x + x,
-                        centerCell.y + y,
-                        centerCell.z + z
-                    );
-
-                    const cell = this.grid.get(key);
-                    if (cell) {
-                        nearby.push(...cell);
+        for (let dx = -cellRadius; dx <= cellRadius; dx++) {
+            for (let dy = -cellRadius; dy <= cellRadius; dy++) {
+                for (let dz = -cellRadius; dz <= cellRadius; dz++) {
+                    const key = SpatialHash.packKey(cx + dx, cy + dy, cz + dz);
+                    for (let j = this.bucketHeads[this.bucketOf(key)]; j !== -1; j = this.nextInBucket[j]) {
+                        if (this.slotCell[j] === key) out.push(j);
                     }
                 }
             }
         }
 
-        return nearby;
+        return out.length;
+    }
+
+    findNearest(
+        x: number, y: number, z: number,
+        radius: number,
+        k: number,
+        out: Int32Array | number[],
+        outOffset: number = 0,
+        exclude: number = -1,
+        accept?: (index: number) => boolean
+    ): number {
+        if (k <= 0) return 0;
+        const nearest = this.nearest;
+        nearest.reset(k, radius);
+
+        const positions = this.positions;
+        const size = this.cellSize;
+        const cellRadius = Math.ceil(radius / size);
+        const cx = Math.floor(x / size);
+        const cy = Math.floor(y / size);
+        const cz = Math.floor(z / size);
+
+        this.queryCount++;
+
+        for (let dx = -cellRadius; dx <= cellRadius; dx++) {
+            const gx = SpatialHash.axisGap(x, cx + dx, size);
+            for (let dy = -cellRadius; dy <= cellRadius; dy++) {
+                const gy = SpatialHash.axisGap(y, cy + dy, size);
+                for (let dz = -cellRadius; dz <= cellRadius; dz++) {
+                    const gz = SpatialHash.axisGap(z, cz + dz, size);
+                    // Skip cells whose closest point is out of reach
+                    if (gx * gx + gy * gy + gz * gz > nearest.limitSq) continue;
+
+                    const key = SpatialHash.packKey(cx + dx, cy + dy, cz + dz);
+                    const head = this.bucketHeads[this.bucketOf(key)];
+                    if (head === -1) continue;
+                    this.cellsVisited++;
+
+                    for (let j = head; j !== -1; j = this.nextInBucket[j]) {
+                        if (this.slotCell[j] !== key || j === exclude) continue;
+                        this.candidatesTested++;
+                        const ox = positions[j * 3] - x;
+                        const oy = positions[j * 3 + 1] - y;
+                        const oz = positions[j * 3 + 2] - z;
+                        const distSq = ox * ox + oy * oy + oz * oz;
+                        if (!nearest.wants(distSq) || (accept && !accept(j))) continue;
+                        nearest.insert(j, distSq);
+                    }
+                }
+            }
+        }
+
+        return nearest.write(out, outOffset);
     }
 
     /**
-     * Position to grid coordinates
+     * Pack integer cell coordinates into a single numeric key
      */
-    private positionToCell(position: Vector3): { x: number; y: number; z: number } {
-        return {
-            x: Math.floor(position.x / this.cellSize),
-            y: Math.floor(position.y / this.cellSize),
-            z: Math.floor(position.z / this.cellSize)
-        };
+    private static packKey(x: number, y: number, z: number): number {
+        return ((x & CELL_MASK) << (CELL_BITS * 2)) | ((y & CELL_MASK) << CELL_BITS) | (z & CELL_MASK);
     }
 
     /**
-     * Position to hash key
+     * Table bucket for a packed cell key (multiplicative hashing)
      */
-    private getKey(position: Vector3): string {
-        const cell = this.positionToCell(position);
-        return this.cellToKey(cell.x, cell.y, cell.z);
+    private bucketOf(key: number): number {
+        return Math.imul(key, 0x9E3779B1) >>> (32 - this.bucketBits);
+    }
+
+    private cellKey(x: number, y: number, z: number): number {
+        return SpatialHash.packKey(
+            Math.floor(x / this.cellSize),
+            Math.floor(y / this.cellSize),
+            Math.floor(z / this.cellSize)
+        );
     }
 
     /**
-     * Grid coordinates to hash key
+     * Distance along one axis from `v` to cell `cell` (0 if inside it)
      */
-    private cellToKey(x: number, y: number, z: number): string {
-        return `${x},${y},${z}`;
+    private static axisGap(v: number, cell: number, size: number): number {
+        const lo = cell * size;
+        if (v < lo) return lo - v;
+        const hi = lo + size;
+        return v > hi ? v - hi : 0;
     }
 
     /**
-     * Get grid statistics
+     * Get grid statistics (occupancy and query cost since the last rebuild)
      */
-    getStats(): { cellCount: number; avgBoidsPerCell: number; maxBoidsInCell: number } {
-        let maxBoids = 0;
-        let totalBoids = 0;
+    getStats(): SpatialIndexStats {
+        // Occupancy per cell (buckets may mix cells, so count by key)
+        const cells = new Map<number, number>();
+        for (let i = 0; i < this.count; i++) {
+            const key = this.slotCell[i];
+            cells.set(key, (cells.get(key) ?? 0) + 1);
+        }
 
-        for (const cell of this.grid.values()) {
-            maxBoids = Math.max(maxBoids, cell.length);
-            totalBoids += cell.length;
+        let maxBoids = 0;
+        for (const n of cells.values()) {
+            maxBoids = Math.max(maxBoids, n);
         }
 
+        const cellCount = cells.size;
+        const queries = Math.max(1, this.queryCount);
         return {
-            cellCount: this.grid.size,
-            avgBoidsPerCell: this.grid.size > 0 ? totalBoids / this.grid.size : 0,
-            maxBoidsInCell: maxBoids
+            cellCount,
+            avgBoidsPerCell: cellCount > 0 ? this.count / cellCount : 0,
+            maxBoidsInCell: maxBoids,
+            avgCellsPerQuery: this.cellsVisited / queries,
+            avgCandidatesPerQuery: this.candidatesTested / queries
         };
     }
 }
-
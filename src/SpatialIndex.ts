@@ -0,0 +1,128 @@
+/**
+ * Neighbor search structure over Boid slots (see BoidBuffers).
+ * Rebuilt from the packed position array once per simulation step.
+ */
+export interface SpatialIndex {
+    readonly type: SpatialIndexType;
+
+    /**
+     * Change the cell size (takes effect from the next rebuild)
+     */
+    setCellSize(cellSize: number): void;
+
+    /**
+     * Rebuild from packed [x, y, z] positions of the first `count` slots
+     */
+    build(positions: Float32Array, count: number): void;
+
+    /**
+     * Find candidate slots near (x, y, z) - a superset of those within `radius`;
+     * fills `out` and returns the count
+     */
+    findNearby(x: number, y: number, z: number, radius: number, out: number[]): number;
+
+    /**
+     * Find up to `k` slots within `radius` of (x, y, z), nearest first.
+     * Slot `exclude` (usually the querying Boid itself) and slots rejected by
+     * `accept` are skipped. Writes slots to `out` starting at `outOffset` and
+     * returns how many were found.
+     */
+    findNearest(
+        x: number, y: number, z: number,
+        radius: number,
+        k: number,
+        out: Int32Array | number[],
+        outOffset?: number,
+        exclude?: number,
+        accept?: (index: number) => boolean
+    ): number;
+
+    /**
+     * Occupancy and query cost since the last rebuild
+     */
+    getStats(): SpatialIndexStats;
+}
+
+export type SpatialIndexType = 'hash' | 'grid' | 'octree' | 'bruteforce';
+
+export interface SpatialIndexStats {
+    cellCount: number;              // Occupied cells (octree: nodes holding Boids)
+    avgBoidsPerCell: number;
+    maxBoidsInCell: number;
+    avgCellsPerQuery: number;       // Cells / nodes examined per k-nearest query
+    avgCandidatesPerQuery: number;  // Distance tests per k-nearest query
+}
+
+/**
+ * Keeps the k closest candidates of a query, sorted by squared distance.
+ * Shared by all SpatialIndex implementations; buffers are reused between queries.
+ */
+export class NearestCollector {
+    private indices = new Int32Array(0);
+    private distSq = new Float64Array(0);
+    private k = 0;
+    count = 0;
+    // Candidates must be within this squared distance; shrinks once k are held
+    limitSq = 0;
+
+    /**
+     * Start a query for `k` neighbors within `radius`
+     */
+    reset(k: number, radius: number): void {
+        if (this.indices.length < k) {
+            this.indices = new Int32Array(k);
+            this.distSq = new Float64Array(k);
+        }
+        this.k = k;
+        this.count = 0;
+        this.limitSq = radius * radius;
+    }
+
+    /**
+     * Would a candidate at this squared distance make the list?
+     */
+    wants(distSq: number): boolean {
+        return this.count < this.k ? distSq <= this.limitSq : distSq < this.limitSq;
+    }
+
+    /**
+     * Insert a candidate (call only after `wants` returned true)
+     */
+    insert(index: number, distSq: number): void {
+        const indices = this.indices;
+        const dists = this.distSq;
+        let p = this.count < this.k ? this.count++ : this.k - 1;
+        while (p > 0 && dists[p - 1] > distSq) {
+            indices[p] = indices[p - 1];
+            dists[p] = dists[p - 1];
+            p--;
+        }
+        indices[p] = index;
+        dists[p] = distSq;
+        if (this.count === this.k) this.limitSq = dists[this.k - 1];
+    }
+
+    /**
+     * Copy the result (nearest first) to `out` and return the count
+     */
+    write(out: Int32Array | number[], offset: number): number {
+        for (let n = 0; n < this.count; n++) {
+            out[offset + n] = this.indices[n];
+        }
+        return this.count;
+    }
+}
+
+/**
+ * Squared distance from a point to an axis-aligned box (0 if inside)
+ */
+export function boxDistanceSq(
+    x: number, y: number, z: number,
+    minX: number, minY: number, minZ: number,
+    maxX: number, maxY: number, maxZ: number
+): number {
+    const dx = x < minX ? minX - x : x > maxX ? x - maxX : 0;
+    const dy = y < minY ? minY - y : y > maxY ? y - maxY : 0;
+    const dz = z < minZ ? minZ - z : z > maxZ ? z - maxZ : 0;
+    return dx * dx + dy * dy + dz * dz;
+}
@@ -0,0 +1,266 @@
+import { Boid } from './Boid';
+import { BoidBuffers } from './BoidBuffers';
+import { BoidConfig } from './BoidConfig';
+
+// Bins of the nearest-neighbor distance histogram, spread over 0..clusterDistance
+export const NN_HISTOGRAM_BINS = 10;
+
+/**
+ * Centroid of one group (group profile index, -1 for drones without a profile)
+ */
+export interface GroupCentroid {
+    group: number;
+    count: number;
+    x: number;
+    y: number;
+    z: number;
+}
+
+/**
+ * Collective-behavior measures of the flying drones at one moment
+ */
+export interface SwarmMetricsSample {
+    time: number;               // Simulation time (s)
+    count: number;              // Flying drones measured
+    polarization: number;       // |mean heading|: 0 disordered, 1 all flying the same way
+    angularMomentum: number;    // Milling: |mean of (unit offset from centroid × heading)|, 0-1
+    groupRadius: number;        // RMS distance from the centroid (m)
+    clusterCount: number;       // Connected groups of drones within clusterDistance of each other
+    nnMean: number;             // Nearest-neighbor distance statistics (m), over drones with a neighbor in range
+    nnP10: number;
+    nnMedian: number;
+    nnP90: number;
+    isolated: number;           // Drones with no neighbor within the neighbor search radius
+    nnHistogram: number[];      // Drone count per NN_HISTOGRAM_BINS bin over 0..clusterDistance (last bin open-ended)
+    centroids: GroupCentroid[];
+}
+
+/**
+ * Swarm-level order parameters sampled every `metricsInterval` seconds:
+ * polarization, milling, nearest-neighbor spacing, spread, clusters and
+ * per-group centroids. Only flying drones count.
+ *
+ * Neighbor-based measures reuse the neighbor lists of the current step, so
+ * they see as far as the neighbor search does (the largest perception
+ * distance, at most `maxNeighbors` drones) and respect the vision cone.
+ */
+export class SwarmMetrics {
+    history: SwarmMetricsSample[] = [];
+    private nextSampleTime = 0;
+
+    // Scratch, grown as needed
+    private parent: Int32Array = new Int32Array(0);
+    private nearest: Float32Array = new Float32Array(0);
+
+    get latest(): SwarmMetricsSample | null {
+        return this.history[this.history.length - 1] ?? null;
+    }
+
+    /**
+     * Drop the history and sample again on the next step
+     */
+    reset(): void {
+        this.history = [];
+        this.nextSampleTime = 0;
+    }
+
+    /**
+     * Take a sample if one is due at simulation time `time`. The neighbor lists
+     * in `buffers` must be those found for the current positions.
+     */
+    update(boids: Boid[], buffers: BoidBuffers, config: BoidConfig, time: number): void {
+        // Time is a float sum of steps, so allow for rounding below the scheduled time
+        if (time < this.nextSampleTime - 1e-9) return;
+        // Keep to the schedule rather than the step that took the sample; skip missed samples
+        this.nextSampleTime += config.metricsInterval;
+        if (this.nextSampleTime <= time) this.nextSampleTime = time + config.metricsInterval;
+
+        this.history.push(this.measure(boids, buffers, config, time));
+        if (this.history.length > config.metricsHistoryLength) {
+            this.history.splice(0, this.history.length - config.metricsHistoryLength);
+        }
+    }
+
+    /**
+     * Sample history as CSV (one row per sample, oldest first)
+     */
+    toCSV(): string {
+        return metricsToCSV(this.history);
+    }
+
+    private measure(boids: Boid[], buffers: BoidBuffers, config: BoidConfig, time: number): SwarmMetricsSample {
+        const n = boids.length;
+        const pos = buffers.positions;
+        const vel = buffers.velocities;
+        this.ensureScratch(n);
+
+        // Centroids (overall and per group) and summed headings
+        let count = 0;
+        let cx = 0, cy = 0, cz = 0;
+        let hx = 0, hy = 0, hz = 0;
+        const groups = new Map<number, GroupCentroid>();
+        for (let i = 0; i < n; i++) {
+            if (boids[i].energyState !== 'flying') continue;
+            const i3 = i * 3;
+            count++;
+            cx += pos[i3];
+            cy += pos[i3 + 1];
+            cz += pos[i3 + 2];
+
+            const speed = Math.hypot(vel[i3], vel[i3 + 1], vel[i3 + 2]);
+            if (speed > 1e-6) {
+                hx += vel[i3] / speed;
+                hy += vel[i3 + 1] / speed;
+                hz += vel[i3 + 2] / speed;
+            }
+
+            const id = boids[i].groupId;
+            let group = groups.get(id);
+            if (!group) {
+                group = { group: id, count: 0, x: 0, y: 0, z: 0 };
+                groups.set(id, group);
+            }
+            group.count++;
+            group.x += pos[i3];
+            group.y += pos[i3 + 1];
+            group.z += pos[i3 + 2];
+        }
+
+        const centroids = [...groups.values()].sort((a, b) => a.group - b.group);
+        for (const group of centroids) {
+            group.x /= group.count;
+            group.y /= group.count;
+            group.z /= group.count;
+        }
+        if (count === 0) {
+            return {
+                time, count, polarization: 0, angularMomentum: 0, groupRadius: 0, clusterCount: 0,
+                nnMean: 0, nnP10: 0, nnMedian: 0, nnP90: 0, isolated: 0,
+                nnHistogram: new Array(NN_HISTOGRAM_BINS).fill(0), centroids
+            };
+        }
+        cx /= count;
+        cy /= count;
+        cz /= count;
+
+        // Spread and milling about the centroid; nearest neighbors and clusters from the neighbor lists
+        let spreadSq = 0;
+        let mx = 0, my = 0, mz = 0;
+        let nnCount = 0;
+        let nnSum = 0;
+        const clusterSq = config.clusterDistance * config.clusterDistance;
+        const stride = buffers.neighborStride;
+        const parent = this.parent;
+        for (let i = 0; i < n; i++) parent[i] = i;
+
+        for (let i = 0; i < n; i++) {
+            if (boids[i].energyState !== 'flying') continue;
+            const i3 = i * 3;
+            const rx = pos[i3] - cx;
+            const ry = pos[i3 + 1] - cy;
+            const rz = pos[i3 + 2] - cz;
+            const r = Math.sqrt(rx * rx + ry * ry + rz * rz);
+            spreadSq += r * r;
+
+            const speed = Math.hypot(vel[i3], vel[i3 + 1], vel[i3 + 2]);
+            if (r > 1e-6 && speed > 1e-6) {
+                const s = 1 / (r * speed);
+                mx += (ry * vel[i3 + 2] - rz * vel[i3 + 1]) * s;
+                my += (rz * vel[i3] - rx * vel[i3 + 2]) * s;
+                mz += (rx * vel[i3 + 1] - ry * vel[i3]) * s;
+            }
+
+            let nearestSq = Infinity;
+            const neighbors = buffers.neighborCounts[i];
+            for (let k = 0; k < neighbors; k++) {
+                const j = buffers.neighborIndices[i * stride + k];
+                if (boids[j].energyState !== 'flying') continue;
+                const j3 = j * 3;
+                const dx = pos[j3] - pos[i3];
+                const dy = pos[j3 + 1] - pos[i3 + 1];
+                const dz = pos[j3 + 2] - pos[i3 + 2];
+                const distSq = dx * dx + dy * dy + dz * dz;
+                if (distSq < nearestSq) nearestSq = distSq;
+                if (distSq <= clusterSq) this.union(i, j);
+            }
+            if (nearestSq < Infinity) {
+                const d = Math.sqrt(nearestSq);
+                this.nearest[nnCount++] = d;
+                nnSum += d;
+            }
+        }
+
+        let clusterCount = 0;
+        for (let i = 0; i < n; i++) {
+            if (boids[i].energyState === 'flying' && this.find(i) === i) clusterCount++;
+        }
+
+        const nearest = this.nearest.subarray(0, nnCount).sort();
+        const quantile = (q: number) => nnCount > 0 ? nearest[Math.min(nnCount - 1, Math.floor(q * nnCount))] : 0;
+        const histogram: number[] = new Array(NN_HISTOGRAM_BINS).fill(0);
+        const binWidth = config.clusterDistance / NN_HISTOGRAM_BINS;
+        for (let k = 0; k < nnCount; k++) {
+            histogram[Math.min(NN_HISTOGRAM_BINS - 1, Math.floor(nearest[k] / binWidth))]++;
+        }
+
+        return {
+            time,
+            count,
+            polarization: Math.sqrt(hx * hx + hy * hy + hz * hz) / count,
+            angularMomentum: Math.sqrt(mx * mx + my * my + mz * mz) / count,
+            groupRadius: Math.sqrt(spreadSq / count),
+            clusterCount,
+            nnMean: nnCount > 0 ? nnSum / nnCount : 0,
+            nnP10: quantile(0.1),
+            nnMedian: quantile(0.5),
+            nnP90: quantile(0.9),
+            isolated: count - nnCount,
+            nnHistogram: histogram,
+            centroids
+        };
+    }
+
+    private find(i: number): number {
+        const parent = this.parent;
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    }
+
+    private union(a: number, b: number): void {
+        const ra = this.find(a);
+        const rb = this.find(b);
+        if (ra !== rb) this.parent[Math.max(ra, rb)] = Math.min(ra, rb);
+    }
+
+    private ensureScratch(count: number): void {
+        if (this.parent.length >= count) return;
+        this.parent = new Int32Array(count);
+        this.nearest = new Float32Array(count);
+    }
+}
+
+/**
+ * Metric samples as CSV. Centroids go in one column as
+ * "group:x/y/z" entries separated by spaces.
+ */
+export function metricsToCSV(samples: readonly SwarmMetricsSample[]): string {
+    const rows = [
+        'time,count,polarization,angularMomentum,groupRadius,clusterCount,nnMean,nnP10,nnMedian,nnP90,isolated,centroids'
+    ];
+    for (const s of samples) {
+        const centroids = s.centroids
+            .map(c => `${c.group}:${c.x.toFixed(1)}/${c.y.toFixed(1)}/${c.z.toFixed(1)}`)
+            .join(' ');
+        rows.push([
+            s.time.toFixed(3), s.count,
+            s.polarization.toFixed(4), s.angularMomentum.toFixed(4),
+            s.groupRadius.toFixed(2), s.clusterCount,
+            s.nnMean.toFixed(2), s.nnP10.toFixed(2), s.nnMedian.toFixed(2), s.nnP90.toFixed(2),
+            s.isolated, centroids
+        ].join(','));
+    }
+    return rows.join('\n');
+}
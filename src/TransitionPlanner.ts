@@ -0,0 +1,392 @@
+import { Vector3 } from 'three';
+import { BoidConfig } from './BoidConfig';
+import { DroneDynamics } from './DroneDynamics';
+
+// Start delays tried for a drone whose straight path conflicts (s)
+const STAGGER_STEP = 0.5;
+const MAX_STAGGER = 60;
+// Altitude layers above and below the straight path, and lateral detours to either side
+const LAYERS = 3;
+const DETOURS = 2;
+// Layer / detour spacing, in separations
+const OFFSET_SPACING = 2;
+// Most path options tried per drone before it flies its straight path anyway
+const MAX_OPTIONS = 400;
+
+interface Leg {
+    from: Vector3;
+    to: Vector3;
+    start: number;              // Time the leg begins (s)
+    duration: number;
+    length: number;
+    speed: number;              // Cruise speed along the leg (m/s)
+    acceleration: number;       // Along the leg (m/s²)
+}
+
+/**
+ * Time-parameterized flight from one formation point to the next: straight
+ * legs between waypoints, each flown rest-to-rest with a trapezoidal speed
+ * profile that keeps every axis within the BoidConfig limits.
+ */
+export class TransitionPath {
+    readonly startTime: number;
+    readonly endTime: number;
+    readonly waypoints: readonly Vector3[];
+    private legs: Leg[] = [];
+
+    constructor(waypoints: Vector3[], startTime: number, config: BoidConfig) {
+        this.waypoints = waypoints;
+        this.startTime = startTime;
+        let time = startTime;
+        for (let i = 1; i < waypoints.length; i++) {
+            const from = waypoints[i - 1];
+            const to = waypoints[i];
+            const length = from.distanceTo(to);
+            if (length < 1e-6) continue;
+            const { speed, acceleration } = legLimits(from, to, length, config);
+            const duration = DroneDynamics.minTravelTime(length, speed, acceleration);
+            this.legs.push({ from, to, start: time, duration, length, speed, acceleration });
+            time += duration;
+        }
+        this.endTime = time;
+    }
+
+    /**
+     * Where the drone is at `time` (at the first waypoint before the start,
+     * at the last one after the end)
+     */
+    positionAt(time: number, out: Vector3): Vector3 {
+        if (time <= this.startTime || this.legs.length === 0) return out.copy(this.waypoints[0]);
+        if (time >= this.endTime) return out.copy(this.waypoints[this.waypoints.length - 1]);
+
+        let leg = this.legs[0];
+        for (const l of this.legs) {
+            if (time < l.start) break;
+            leg = l;
+        }
+        const s = profileDistance(time - leg.start, leg);
+        return out.lerpVectors(leg.from, leg.to, s / leg.length);
+    }
+}
+
+/**
+ * Paths for every drone, and what they add up to
+ */
+export interface TransitionPlan {
+    paths: (TransitionPath | null)[];  // Per drone (null if it has no target)
+    duration: number;           // Until the last drone arrives: the shortest transition this plan can fly (s)
+    lowerBound: number;         // Slowest straight flight on its own; no plan can be shorter (s)
+    conflicts: number;          // Drones no option could keep separated (they fly straight)
+    crowdedTargets: number;     // Targets closer than the separation to another (the formation itself is too tight)
+    separation: number;         // Distance kept between drones (m)
+    sampleStep: number;         // Separation is checked every sampleStep seconds
+}
+
+interface PathOption {
+    waypoints: Vector3[];
+    delay: number;
+    end: number;
+    rank: number;               // Prefer simpler shapes when the arrival time ties
+}
+
+const _p = new Vector3();
+const _q = new Vector3();
+
+/**
+ * Plans collision-free flights between two formations.
+ *
+ * Drones are planned one at a time, longest flight first; each must keep
+ * `nearMissRadius` from every drone planned before it, whether that one is
+ * waiting, flying or already parked, and from the start points of the drones
+ * still to come (which wait there until planned). For each drone the options are its
+ * straight path, climbs to altitude layers above / below and lateral detours,
+ * each with staggered start times, tried in order of arrival time, so the first
+ * one that is clear also arrives earliest.
+ *
+ * Pairs whose start or target points are already closer than the separation are
+ * not checked: no path can fix those, and they are counted in `crowdedTargets`.
+ */
+export class TransitionPlanner {
+    private config: BoidConfig;
+    private separation: number;
+    private sampleStep: number;
+
+    private from: readonly Vector3[] = [];
+    private to: readonly (Vector3 | null)[] = [];
+    private paths: (TransitionPath | null)[] = [];
+    // Space-time hash of the planned drones: per sample while flying, and where they wait / park
+    private flying: Map<number, number[]>[] = [];
+    private waiting = new Map<number, number[]>();
+    private parked = new Map<number, number[]>();
+    private horizon = 0;
+
+    constructor(config: BoidConfig) {
+        this.config = config;
+        this.separation = Math.max(0.1, config.nearMissRadius);
+        const topSpeed = config.useDroneDynamics
+            ? Math.min(config.maxSpeed, Math.max(config.maxHorizontalSpeed, config.maxClimbRate, config.maxDescentRate))
+            : config.maxSpeed;
+        // Two drones close in by at most one separation between samples
+        this.sampleStep = Math.min(0.25, Math.max(0.02, this.separation / (2 * topSpeed)));
+    }
+
+    /**
+     * Plan flights from `from[i]` to `to[i]` (null: drone i stays out of the plan)
+     */
+    plan(from: readonly Vector3[], to: readonly (Vector3 | null)[]): TransitionPlan {
+        this.from = from;
+        this.to = to;
+        this.paths = from.map(() => null);
+        this.flying = [];
+        this.waiting.clear();
+        this.parked.clear();
+        this.horizon = 0;
+
+        const direct = from.map((p, i) => to[i] ? new TransitionPath([p, to[i]!], 0, this.config) : null);
+        const order = direct
+            .map((path, i) => ({ i, duration: path ? path.endTime : -1 }))
+            .filter(e => e.duration >= 0)
+            .sort((a, b) => b.duration - a.duration);
+
+        // Drones not planned yet wait at their start until they are
+        for (const { i } of order) addToCell(this.waiting, this.cellKey(from[i]), i);
+
+        let conflicts = 0;
+        for (const { i } of order) {
+            let chosen: TransitionPath | null = null;
+            // Options tend to fail where the last one did, so look there first
+            let hint = -1;
+            for (const option of this.options(i, direct[i]!)) {
+                const path = option.rank === 0 && option.delay === 0
+                    ? direct[i]!
+                    : new TransitionPath(option.waypoints, option.delay, this.config);
+                if (hint >= 0 && this.conflictAt(i, path, hint)) continue;
+                hint = this.firstConflict(i, path);
+                if (hint < 0) {
+                    chosen = path;
+                    break;
+                }
+            }
+            if (!chosen) {
+                chosen = direct[i]!;
+                conflicts++;
+            }
+            this.insert(i, chosen);
+        }
+
+        return {
+            paths: this.paths,
+            duration: this.horizon,
+            lowerBound: order.length > 0 ? order[0].duration : 0,
+            conflicts,
+            crowdedTargets: this.countCrowded(),
+            separation: this.separation,
+            sampleStep: this.sampleStep
+        };
+    }
+
+    /**
+     * Candidate paths for drone `i`, earliest arrival first (the first MAX_OPTIONS).
+     * Built lazily: each shape's delays are merged in order of arrival, so only
+     * the options actually tried are made.
+     */
+    private *options(i: number, direct: TransitionPath): Generator<PathOption> {
+        const a = this.from[i];
+        const b = this.to[i]!;
+        const spacing = this.separation * OFFSET_SPACING;
+        const shapes: { waypoints: Vector3[]; rank: number }[] = [{ waypoints: [a, b], rank: 0 }];
+
+        for (let layer = 1; layer <= LAYERS; layer++) {
+            for (const sign of [1, -1]) {
+                const up = sign * layer * spacing;
+                if (Math.min(a.y, b.y) + up < this.config.bounds.min.y) continue;
+                shapes.push({
+                    waypoints: [a, a.clone().setY(a.y + up), b.clone().setY(b.y + up), b],
+                    rank: 2 * layer
+                });
+            }
+        }
+
+        // Sideways in the horizontal plane (along x for a purely vertical move)
+        const side = new Vector3(-(b.z - a.z), 0, b.x - a.x);
+        if (side.lengthSq() < 1e-6) side.set(1, 0, 0);
+        side.normalize();
+        const middle = a.clone().add(b).multiplyScalar(0.5);
+        for (let detour = 1; detour <= DETOURS; detour++) {
+            for (const sign of [1, -1]) {
+                shapes.push({
+                    waypoints: [a, middle.clone().addScaledVector(side, sign * detour * spacing), b],
+                    rank: 2 * detour + 1
+                });
+            }
+        }
+
+        const durations = shapes.map(shape => shape.rank === 0
+            ? direct.endTime
+            : new TransitionPath(shape.waypoints, 0, this.config).endTime);
+        // Next delay step of each shape; the earliest arrival (then the lowest rank, then shape order) goes next
+        const next = shapes.map(() => 0);
+        const lastStep = Math.floor(MAX_STAGGER / STAGGER_STEP);
+        for (let n = 0; n < MAX_OPTIONS; n++) {
+            let best = -1;
+            let bestEnd = Infinity;
+            shapes.forEach((shape, s) => {
+                if (next[s] > lastStep) return;
+                const end = next[s] * STAGGER_STEP + durations[s];
+                if (end < bestEnd || (end === bestEnd && shape.rank < shapes[best].rank)) {
+                    best = s;
+                    bestEnd = end;
+                }
+            });
+            if (best < 0) return;
+            const delay = next[best]++ * STAGGER_STEP;
+            yield { waypoints: shapes[best].waypoints, delay, end: bestEnd, rank: shapes[best].rank };
+        }
+    }
+
+    /**
+     * First sample at which drone `i` on `path` comes too close to a drone
+     * planned so far (-1 if none). Only flight is checked against waiting and
+     * parked drones: two drones standing still cannot be separated by timing.
+     */
+    private firstConflict(i: number, path: TransitionPath): number {
+        const end = Math.max(path.endTime, this.horizon);
+        for (let k = 0; k * this.sampleStep <= end; k++) {
+            if (this.conflictAt(i, path, k)) return k;
+        }
+        return -1;
+    }
+
+    private conflictAt(i: number, path: TransitionPath, k: number): boolean {
+        const t = k * this.sampleStep;
+        const sepSq = this.separation * this.separation;
+        path.positionAt(t, _p);
+
+        if (this.forNeighbors(this.flying[k], _p, j => !this.skipPair(i, j)
+            && this.paths[j]!.positionAt(t, _q).distanceToSquared(_p) < sepSq)) return true;
+        if (t <= path.startTime || t >= path.endTime) return false;
+
+        return this.forNeighbors(this.waiting, _p, j => j !== i
+            && t < (this.paths[j]?.startTime ?? Infinity)
+            && !this.skipPair(i, j)
+            && this.from[j].distanceToSquared(_p) < sepSq)
+            || this.forNeighbors(this.parked, _p, j => t >= this.paths[j]!.endTime
+            && !this.skipPair(i, j)
+            && this.to[j]!.distanceToSquared(_p) < sepSq);
+    }
+
+    private insert(i: number, path: TransitionPath): void {
+        this.paths[i] = path;
+        this.horizon = Math.max(this.horizon, path.endTime);
+        addToCell(this.parked, this.cellKey(this.to[i]!), i);
+
+        const first = Math.floor(path.startTime / this.sampleStep);
+        const last = Math.ceil(path.endTime / this.sampleStep);
+        for (let k = first; k <= last; k++) {
+            const t = k * this.sampleStep;
+            if (t <= path.startTime || t >= path.endTime) continue;
+            while (this.flying.length <= k) this.flying.push(new Map());
+            addToCell(this.flying[k], this.cellKey(path.positionAt(t, _q)), i);
+        }
+    }
+
+    /**
+     * Pairs that start or end closer than the separation are not the planner's to fix
+     */
+    private skipPair(i: number, j: number): boolean {
+        const sepSq = this.separation * this.separation;
+        return this.to[i]!.distanceToSquared(this.to[j]!) < sepSq
+            || this.from[i].distanceToSquared(this.from[j]) < sepSq;
+    }
+
+    /**
+     * True if `test` holds for a drone within one separation of `p`. Cells are
+     * two separations wide, so that range spans a 2x2x2 block of them.
+     */
+    private forNeighbors(cells: Map<number, number[]> | undefined, p: Vector3, test: (j: number) => boolean): boolean {
+        if (!cells || cells.size === 0) return false;
+        const s = this.separation;
+        const size = 2 * s;
+        const x0 = Math.floor((p.x - s) / size);
+        const y0 = Math.floor((p.y - s) / size);
+        const z0 = Math.floor((p.z - s) / size);
+        for (let x = x0; x <= x0 + 1; x++) {
+            for (let y = y0; y <= y0 + 1; y++) {
+                for (let z = z0; z <= z0 + 1; z++) {
+                    const cell = cells.get(hashCell(x, y, z));
+                    if (cell && cell.some(test)) return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    private countCrowded(): number {
+        const targets = new Map<number, number[]>();
+        this.to.forEach((p, i) => { if (p) addToCell(targets, this.cellKey(p), i); });
+        const sepSq = this.separation * this.separation;
+        let crowded = 0;
+        this.to.forEach((p, i) => {
+            if (p && this.forNeighbors(targets, p, j => j !== i && this.to[j]!.distanceToSquared(p) < sepSq)) crowded++;
+        });
+        return crowded;
+    }
+
+    private cellKey(p: Vector3): number {
+        const size = 2 * this.separation;
+        return hashCell(Math.floor(p.x / size), Math.floor(p.y / size), Math.floor(p.z / size));
+    }
+}
+
+/**
+ * Cruise speed and acceleration along a straight leg, such that no axis
+ * exceeds its limit (with drone dynamics: horizontal, climb / descent and
+ * vertical acceleration limits; without: maxSpeed and the steering limit)
+ */
+function legLimits(from: Vector3, to: Vector3, length: number, config: BoidConfig): { speed: number; acceleration: number } {
+    if (!config.useDroneDynamics) {
+        return { speed: config.maxSpeed, acceleration: Math.min(config.maxForce, config.maxAcceleration) };
+    }
+    const dy = to.y - from.y;
+    const horizontal = Math.sqrt((to.x - from.x) ** 2 + (to.z - from.z) ** 2) / length;
+    const vertical = Math.abs(dy) / length;
+    let speed = config.maxSpeed;
+    let acceleration = Infinity;
+    if (horizontal > 1e-9) {
+        speed = Math.min(speed, config.maxHorizontalSpeed / horizontal);
+        acceleration = Math.min(acceleration, config.maxHorizontalAcceleration / horizontal);
+    }
+    if (vertical > 1e-9) {
+        speed = Math.min(speed, (dy > 0 ? config.maxClimbRate : config.maxDescentRate) / vertical);
+        acceleration = Math.min(acceleration, config.maxVerticalAcceleration / vertical);
+    }
+    return { speed, acceleration };
+}
+
+/**
+ * Distance covered `t` seconds into a rest-to-rest trapezoidal leg
+ */
+function profileDistance(t: number, leg: Leg): number {
+    const { length, acceleration: a, duration } = leg;
+    // Peak speed actually reached (lower than the cruise speed on a short leg)
+    const peak = Math.min(leg.speed, Math.sqrt(length * a));
+    const ramp = peak / a;
+    if (t <= 0) return 0;
+    if (t >= duration) return length;
+    if (t < ramp) return 0.5 * a * t * t;
+    if (t > duration - ramp) {
+        const left = duration - t;
+        return length - 0.5 * a * left * left;
+    }
+    return 0.5 * a * ramp * ramp + peak * (t - ramp);
+}
+
+function hashCell(x: number, y: number, z: number): number {
+    return ((x * 73856093) ^ (y * 19349663) ^ (z * 83492791)) | 0;
+}
+
+function addToCell(cells: Map<number, number[]>, key: number, i: number): void {
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+}
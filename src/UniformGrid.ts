@@ -0,0 +1,254 @@
+import { NearestCollector, SpatialIndex, SpatialIndexStats } from './SpatialIndex';
+
+// Upper bound on grid cells, relative to the Boid count; sparse swarms get coarser cells
+const MAX_CELLS_PER_BOID = 8;
+const MIN_MAX_CELLS = 1 << 12;
+
+/**
+ * Dense uniform grid over the swarm's bounding box, built with a counting sort.
+ * Slots are reordered so each cell is one contiguous run (`cellStart`), and
+ * positions are copied in that order for cache-friendly queries. Suited to
+ * evenly spread flocks.
+ */
+export class UniformGrid implements SpatialIndex {
+    readonly type = 'grid';
+    private cellSize: number;
+    // Cell size actually used by the current build (grown when the box is huge)
+    private effectiveCellSize = 1;
+
+    private minX = 0;
+    private minY = 0;
+    private minZ = 0;
+    private dimX = 0;
+    private dimY = 0;
+    private dimZ = 0;
+    private count = 0;
+
+    // Cell c holds sortedSlots[cellStart[c] .. cellStart[c + 1])
+    private cellStart = new Int32Array(1);
+    private sortedSlots = new Int32Array(0);
+    private sortedPositions = new Float32Array(0);
+    private slotCell = new Int32Array(0);
+
+    private nearest = new NearestCollector();
+
+    // Query cost since the last rebuild
+    private queryCount = 0;
+    private cellsVisited = 0;
+    private candidatesTested = 0;
+
+    constructor(cellSize: number) {
+        this.cellSize = cellSize;
+    }
+
+    setCellSize(cellSize: number): void {
+        this.cellSize = cellSize;
+    }
+
+    build(positions: Float32Array, count: number): void {
+        this.count = count;
+        if (this.slotCell.length < count) {
+            const capacity = Math.max(count, this.slotCell.length * 2);
+            this.slotCell = new Int32Array(capacity);
+            this.sortedSlots = new Int32Array(capacity);
+            this.sortedPositions = new Float32Array(capacity * 3);
+        }
+
+        // 1. Bounding box of the swarm
+        let minX = Infinity, minY = Infinity, minZ = Infinity;
+        let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+        for (let i = 0; i < count; i++) {
+            const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+            if (z < minZ) minZ = z;
+            if (z > maxZ) maxZ = z;
+        }
+        if (count === 0) minX = minY = minZ = maxX = maxY = maxZ = 0;
+
+        // 2. Grid dimensions, coarsening the cells if the box would need too many
+        const maxCells = Math.max(MIN_MAX_CELLS, count * MAX_CELLS_PER_BOID);
+        let size = this.cellSize;
+        let dimX: number, dimY: number, dimZ: number;
+        for (;;) {
+            dimX = Math.floor((maxX - minX) / size) + 1;
+            dimY = Math.floor((maxY - minY) / size) + 1;
+            dimZ = Math.floor((maxZ - minZ) / size) + 1;
+            if (dimX * dimY * dimZ <= maxCells) break;
+            size *= 2;
+        }
+        this.effectiveCellSize = size;
+        this.minX = minX;
+        this.minY = minY;
+        this.minZ = minZ;
+        this.dimX = dimX;
+        this.dimY = dimY;
+        this.dimZ = dimZ;
+
+        const cellCount = dimX * dimY * dimZ;
+        if (this.cellStart.length < cellCount + 1) {
+            this.cellStart = new Int32Array(Math.max(cellCount + 1, this.cellStart.length * 2));
+        }
+        const cellStart = this.cellStart;
+        cellStart.fill(0, 0, cellCount + 1);
+
+        // 3. Counting sort: histogram, prefix sum, scatter
+        for (let i = 0; i < count; i++) {
+            const cell = this.cellIndex(
+                Math.floor((positions[i * 3] - minX) / size),
+                Math.floor((positions[i * 3 + 1] - minY) / size),
+                Math.floor((positions[i * 3 + 2] - minZ) / size)
+            );
+            this.slotCell[i] = cell;
+            cellStart[cell + 1]++;
+        }
+        for (let c = 0; c < cellCount; c++) {
+            cellStart[c + 1] += cellStart[c];
+        }
+        for (let i = 0; i < count; i++) {
+            const cell = this.slotCell[i];
+            // cellStart[cell] is used as the write cursor, then restored below
+            const at = cellStart[cell]++;
+            this.sortedSlots[at] = i;
+            this.sortedPositions[at * 3] = positions[i * 3];
+            this.sortedPositions[at * 3 + 1] = positions[i * 3 + 1];
+            this.sortedPositions[at * 3 + 2] = positions[i * 3 + 2];
+        }
+        for (let c = cellCount; c > 0; c--) {
+            cellStart[c] = cellStart[c - 1];
+        }
+        cellStart[0] = 0;
+
+        this.queryCount = 0;
+        this.cellsVisited = 0;
+        this.candidatesTested = 0;
+    }
+
+    findNearby(x: number, y: number, z: number, radius: number, out: number[]): number {
+        out.length = 0;
+        const size = this.effectiveCellSize;
+        const x0 = this.clampX(Math.floor((x - radius - this.minX) / size));
+        const x1 = this.clampX(Math.floor((x + radius - this.minX) / size));
+        const y0 = this.clampY(Math.floor((y - radius - this.minY) / size));
+        const y1 = this.clampY(Math.floor((y + radius - this.minY) / size));
+        const z0 = this.clampZ(Math.floor((z - radius - this.minZ) / size));
+        const z1 = this.clampZ(Math.floor((z + radius - this.minZ) / size));
+
+        for (let gx = x0; gx <= x1; gx++) {
+            for (let gy = y0; gy <= y1; gy++) {
+                for (let gz = z0; gz <= z1; gz++) {
+                    const cell = this.cellIndex(gx, gy, gz);
+                    for (let s = this.cellStart[cell]; s < this.cellStart[cell + 1]; s++) {
+                        out.push(this.sortedSlots[s]);
+                    }
+                }
+            }
+        }
+
+        return out.length;
+    }
+
+    findNearest(
+        x: number, y: number, z: number,
+        radius: number,
+        k: number,
+        out: Int32Array | number[],
+        outOffset: number = 0,
+        exclude: number = -1,
+        accept?: (index: number) => boolean
+    ): number {
+        if (k <= 0 || this.count === 0) return 0;
+        const nearest = this.nearest;
+        nearest.reset(k, radius);
+        this.queryCount++;
+
+        const size = this.effectiveCellSize;
+        const x0 = this.clampX(Math.floor((x - radius - this.minX) / size));
+        const x1 = this.clampX(Math.floor((x + radius - this.minX) / size));
+        const y0 = this.clampY(Math.floor((y - radius - this.minY) / size));
+        const y1 = this.clampY(Math.floor((y + radius - this.minY) / size));
+        const z0 = this.clampZ(Math.floor((z - radius - this.minZ) / size));
+        const z1 = this.clampZ(Math.floor((z + radius - this.minZ) / size));
+        const positions = this.sortedPositions;
+
+        for (let gx = x0; gx <= x1; gx++) {
+            const ax = UniformGrid.axisGap(x, this.minX + gx * size, size);
+            for (let gy = y0; gy <= y1; gy++) {
+                const ay = UniformGrid.axisGap(y, this.minY + gy * size, size);
+                for (let gz = z0; gz <= z1; gz++) {
+                    const az = UniformGrid.axisGap(z, this.minZ + gz * size, size);
+                    // Skip cells whose closest point is out of reach
+                    if (ax * ax + ay * ay + az * az > nearest.limitSq) continue;
+
+                    const cell = this.cellIndex(gx, gy, gz);
+                    const end = this.cellStart[cell + 1];
+                    let s = this.cellStart[cell];
+                    if (s === end) continue;
+                    this.cellsVisited++;
+
+                    for (; s < end; s++) {
+                        const j = this.sortedSlots[s];
+                        if (j === exclude) continue;
+                        this.candidatesTested++;
+                        const ox = positions[s * 3] - x;
+                        const oy = positions[s * 3 + 1] - y;
+                        const oz = positions[s * 3 + 2] - z;
+                        const distSq = ox * ox + oy * oy + oz * oz;
+                        if (!nearest.wants(distSq) || (accept && !accept(j))) continue;
+                        nearest.insert(j, distSq);
+                    }
+                }
+            }
+        }
+
+        return nearest.write(out, outOffset);
+    }
+
+    private cellIndex(gx: number, gy: number, gz: number): number {
+        return (gx * this.dimY + gy) * this.dimZ + gz;
+    }
+
+    private clampX(g: number): number {
+        return g < 0 ? 0 : g >= this.dimX ? this.dimX - 1 : g;
+    }
+
+    private clampY(g: number): number {
+        return g < 0 ? 0 : g >= this.dimY ? this.dimY - 1 : g;
+    }
+
+    private clampZ(g: number): number {
+        return g < 0 ? 0 : g >= this.dimZ ? this.dimZ - 1 : g;
+    }
+
+    /**
+     * Distance along one axis from `v` to the cell starting at `lo` (0 if inside it)
+     */
+    private static axisGap(v: number, lo: number, size: number): number {
+        if (v < lo) return lo - v;
+        const hi = lo + size;
+        return v > hi ? v - hi : 0;
+    }
+
+    getStats(): SpatialIndexStats {
+        const cellCount = this.dimX * this.dimY * this.dimZ;
+        let occupied = 0;
+        let maxBoids = 0;
+
+        for (let c = 0; c < cellCount; c++) {
+            const n = this.cellStart[c + 1] - this.cellStart[c];
+            if (n > 0) occupied++;
+            if (n > maxBoids) maxBoids = n;
+        }
+
+        const queries = Math.max(1, this.queryCount);
+        return {
+            cellCount: occupied,
+            avgBoidsPerCell: occupied > 0 ? this.count / occupied : 0,
+            maxBoidsInCell: maxBoids,
+            avgCellsPerQuery: this.cellsVisited / queries,
+            avgCandidatesPerQuery: this.candidatesTested / queries
+        };
+    }
+}
@@ -0,0 +1,232 @@
+import { BoidConfig } from './BoidConfig';
+import { BoxObstacle, Obstacle } from './Obstacle';
+import { SeededRandom } from './SeededRandom';
+
+// Number of sine modes summed for turbulence
+const TURBULENCE_MODES = 8;
+// Lowest height used for the shear profile (m), so the ground is not dead calm
+const MIN_SHEAR_HEIGHT = 0.5;
+
+/**
+ * Procedural wind: steady wind with height-dependent shear, travelling gusts,
+ * frozen turbulence and channelling between buildings.
+ *
+ * - Shear: power law, speed(h) = windSpeed · (h / windReferenceHeight)^windShearExponent
+ * - Gusts: 1-cosine pulses every `gustInterval` seconds with seeded amplitudes,
+ *   moving downwind with the mean flow
+ * - Turbulence: a sum of seeded sine modes advected with the mean wind
+ *   (Taylor's frozen turbulence), scaled by the local mean speed
+ * - Buildings: below roof height, flow into a wall is turned along it, and
+ *   speed rises beside a building and drops in front of and behind it, so gaps
+ *   between buildings act as channels
+ *
+ * The field depends only on position, time, the config and the seed, so the
+ * same show replays with the same wind.
+ */
+export class WindField {
+    // Building footprints as [minX, minZ, maxX, maxZ, roof] per building
+    private buildings: Float32Array = new Float32Array(0);
+    private buildingCount = 0;
+
+    // Turbulence modes: wave vector (per meter), perturbation direction, phase
+    private modeSeed = NaN;
+    private waveVectors = new Float64Array(TURBULENCE_MODES * 3);
+    private modeDirections = new Float64Array(TURBULENCE_MODES * 3);
+    private modePhases = new Float64Array(TURBULENCE_MODES);
+    private modeNorm = 1;
+    private modeScale = NaN;
+
+    /**
+     * Refresh building footprints and turbulence modes before sampling a step
+     */
+    beginStep(config: BoidConfig, obstacles: readonly Obstacle[]): void {
+        if (config.seed !== this.modeSeed || config.turbulenceScale !== this.modeScale) {
+            this.buildModes(config.seed, config.turbulenceScale);
+        }
+
+        let count = 0;
+        for (const obstacle of obstacles) {
+            if (obstacle.source === 'building' && obstacle instanceof BoxObstacle) count++;
+        }
+        if (this.buildings.length < count * 5) {
+            this.buildings = new Float32Array(count * 5);
+        }
+        let b = 0;
+        for (const obstacle of obstacles) {
+            if (obstacle.source !== 'building' || !(obstacle instanceof BoxObstacle)) continue;
+            const { min, max } = obstacle.box;
+            this.buildings[b++] = min.x;
+            this.buildings[b++] = min.z;
+            this.buildings[b++] = max.x;
+            this.buildings[b++] = max.z;
+            this.buildings[b++] = max.y;
+        }
+        this.buildingCount = count;
+    }
+
+    /**
+     * Wind velocity (m/s) at (x, y, z) and simulation time `t`, written to
+     * out[offset .. offset + 2]. Returns the wind speed.
+     */
+    sample(
+        x: number, y: number, z: number,
+        t: number,
+        config: BoidConfig,
+        out: Float32Array | number[],
+        offset: number = 0
+    ): number {
+        // 1. Mean wind with shear
+        const angle = config.windDirection * (Math.PI / 180);
+        const dirX = Math.sin(angle);
+        const dirZ = Math.cos(angle);
+        const height = Math.max(MIN_SHEAR_HEIGHT, y);
+        const mean = config.windSpeed * Math.pow(height / config.windReferenceHeight, config.windShearExponent);
+
+        // 2. Gusts travel downwind at the reference wind speed
+        let speed = mean * (1 + config.gustStrength * this.gust(x, z, t, dirX, dirZ, config));
+
+        // 3. Building channelling: speed factor and flow turned along walls
+        let wx = dirX;
+        let wz = dirZ;
+        if (config.buildingChannelling > 0 && this.buildingCount > 0) {
+            let factor = 1;
+            const range = config.channellingRange;
+            const buildings = this.buildings;
+
+            for (let b = 0; b < this.buildingCount * 5; b += 5) {
+                if (y > buildings[b + 4]) continue;
+
+                // Closest point of the footprint
+                const cx = x < buildings[b] ? buildings[b] : x > buildings[b + 2] ? buildings[b + 2] : x;
+                const cz = z < buildings[b + 1] ? buildings[b + 1] : z > buildings[b + 3] ? buildings[b + 3] : z;
+                const nx = x - cx;
+                const nz = z - cz;
+                const distSq = nx * nx + nz * nz;
+                if (distSq >= range * range) continue;
+                if (distSq === 0) {
+                    // Inside the building: still air
+                    factor = 0;
+                    break;
+                }
+
+                const dist = Math.sqrt(distSq);
+                const ux = nx / dist;
+                const uz = nz / dist;
+                const falloff = (1 - dist / range) * (1 - dist / range);
+
+                // Faster beside the building (normal across the flow), slower in front and behind
+                const along = ux * dirX + uz * dirZ;
+                factor += config.buildingChannelling * falloff * (1 - 2 * along * along);
+
+                // Turn flow heading into the wall along it
+                const into = -(ux * wx + uz * wz);
+                if (into > 0) {
+                    wx += ux * into * falloff;
+                    wz += uz * into * falloff;
+                }
+            }
+
+            const len = Math.sqrt(wx * wx + wz * wz);
+            if (len > 1e-6) {
+                wx /= len;
+                wz /= len;
+            }
+            speed *= Math.max(0, factor);
+        }
+
+        let vx = wx * speed;
+        let vy = 0;
+        let vz = wz * speed;
+
+        // 4. Turbulence, advected with the mean flow
+        if (config.turbulenceIntensity > 0 && speed > 0) {
+            const px = x - dirX * config.windSpeed * t;
+            const pz = z - dirZ * config.windSpeed * t;
+            const amplitude = config.turbulenceIntensity * speed * this.modeNorm;
+            for (let m = 0; m < TURBULENCE_MODES; m++) {
+                const m3 = m * 3;
+                const s = amplitude * Math.sin(
+                    this.waveVectors[m3] * px + this.waveVectors[m3 + 1] * y + this.waveVectors[m3 + 2] * pz + this.modePhases[m]
+                );
+                vx += this.modeDirections[m3] * s;
+                vy += this.modeDirections[m3 + 1] * s;
+                vz += this.modeDirections[m3 + 2] * s;
+            }
+        }
+
+        out[offset] = vx;
+        out[offset + 1] = vy;
+        out[offset + 2] = vz;
+        return Math.sqrt(vx * vx + vy * vy + vz * vz);
+    }
+
+    /**
+     * Gust envelope (0-1) at (x, z): a 1-cosine pulse at the start of every
+     * `gustInterval`, delayed by how far downwind the point is
+     */
+    private gust(x: number, z: number, t: number, dirX: number, dirZ: number, config: BoidConfig): number {
+        if (config.gustStrength <= 0 || config.gustInterval <= 0 || config.gustDuration <= 0) return 0;
+
+        const travel = config.windSpeed > 0 ? (x * dirX + z * dirZ) / config.windSpeed : 0;
+        const tau = t - travel;
+        const n = Math.floor(tau / config.gustInterval);
+        const local = tau - n * config.gustInterval;
+        if (local >= config.gustDuration) return 0;
+
+        // Seeded amplitude per gust, 0.5-1
+        let h = Math.imul(n ^ config.seed, 0x9e3779b1);
+        h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+        h ^= h >>> 13;
+        const amplitude = 0.5 + 0.5 * ((h >>> 0) / 4294967296);
+
+        return amplitude * 0.5 * (1 - Math.cos(2 * Math.PI * local / config.gustDuration));
+    }
+
+    /**
+     * Draw turbulence modes from the seed: wavelengths from `scale` down by
+     * halves, amplitudes falling off as wavelength^(1/3), each perturbation
+     * perpendicular to its wave vector
+     */
+    private buildModes(seed: number, scale: number): void {
+        const rng = SeededRandom.derive(seed, 2);
+        let sumSq = 0;
+
+        for (let m = 0; m < TURBULENCE_MODES; m++) {
+            const wavelength = Math.max(1, scale) / Math.pow(2, m >> 1);
+            const k = 2 * Math.PI / wavelength;
+
+            // Random wave direction
+            const kz = rng.range(-1, 1);
+            const phi = rng.range(0, 2 * Math.PI);
+            const r = Math.sqrt(1 - kz * kz);
+            const kx = r * Math.cos(phi);
+            const ky = r * Math.sin(phi);
+
+            // Perturbation: random direction projected off the wave vector
+            let dx = rng.range(-1, 1);
+            let dy = rng.range(-1, 1);
+            let dz = rng.range(-1, 1);
+            const dot = dx * kx + dy * ky + dz * kz;
+            dx -= dot * kx;
+            dy -= dot * ky;
+            dz -= dot * kz;
+            const len = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+            const amplitude = Math.pow(wavelength / Math.max(1, scale), 1 / 3);
+
+            const m3 = m * 3;
+            this.waveVectors[m3] = kx * k;
+            this.waveVectors[m3 + 1] = ky * k;
+            this.waveVectors[m3 + 2] = kz * k;
+            this.modeDirections[m3] = dx / len * amplitude;
+            this.modeDirections[m3 + 1] = dy / len * amplitude;
+            this.modeDirections[m3 + 2] = dz / len * amplitude;
+            this.modePhases[m] = rng.range(0, 2 * Math.PI);
+            sumSq += amplitude * amplitude;
+        }
+
+        // Scale so each component has a standard deviation of 1 (sin has variance 1/2, spread over 3 axes)
+        this.modeNorm = 1 / Math.sqrt(sumSq / 6);
+        this.modeSeed = seed;
+        this.modeScale = scale;
+    }
+}
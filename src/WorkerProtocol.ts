@@ -0,0 +1,42 @@
+import { BoidSystemStats } from './BoidSystem';
+import { FaultType } from './FaultInjector';
+import { SerializedForceField } from './ForceField';
+import { SerializedObstacle } from './Obstacle';
+import { RenderFrame } from './RenderFrame';
+import { ShowFile } from './ShowFile';
+
+/**
+ * Messages exchanged between the main thread and the simulation worker
+ */
+
+// Main thread -> worker
+export type WorkerRequest =
+    | {
+        type: 'init';
+        config: string;              // BoidSystem.exportConfig() JSON
+        boidCount: number;
+        show: ShowFile;
+        obstacles: SerializedObstacle[];
+        forceFields: SerializedForceField[];
+        shared: boolean;             // Use SharedArrayBuffer-backed frames
+    }
+    | { type: 'tick'; dt: number; frame: RenderFrame | null }  // Returns the last frame's buffers for reuse
+    | { type: 'config'; config: string }
+    | { type: 'initializeBoids'; count: number }
+    | { type: 'reset' }
+    | { type: 'recharge' }
+    | { type: 'safetyLog' }                                    // Request the safety event log as CSV
+    | { type: 'metricsLog' }                                   // Request the swarm metrics history as CSV
+    | { type: 'geofenceLog' }                                  // Request the geofence breach log as CSV
+    | { type: 'fault'; fault: FaultType; id: number | null; delay: number }  // Inject (delay 0) or schedule a fault
+    | { type: 'obstacles'; obstacles: SerializedObstacle[] }
+    | { type: 'forceFields'; forceFields: SerializedForceField[] }
+    | { type: 'story'; running: boolean }
+    | { type: 'show'; show: ShowFile };                        // Replace the show (stops the current one)
+
+// Worker -> main thread
+export type WorkerResponse =
+    | { type: 'frame'; frame: RenderFrame; stats: BoidSystemStats; steps: number }
+    | { type: 'safetyLog'; csv: string }
+    | { type: 'metricsLog'; csv: string }
+    | { type: 'geofenceLog'; csv: string };
@@ -0,0 +1,175 @@
+import { Vector3 } from 'three';
+import { FormationAssignment } from './FormationAssignment';
+import { SeededRandom } from './SeededRandom';
+import { demoShow, parseShowFile } from './ShowFile';
+
+/**
+ * Quick self-checks, run with `npm run check`: the show file parser rejects
+ * malformed shows, and slot assignment on small inputs is compared with a
+ * brute-force search over every matching. Exits with status 1 if any check fails.
+ */
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail = ''): void {
+    if (ok) return;
+    failures++;
+    console.error(`FAIL ${name}${detail ? `: ${detail}` : ''}`);
+}
+
+// ========== Show File Parser ==========
+
+function showWith(scene: object, show: object = {}): unknown {
+    return {
+        name: 'check',
+        performers: 10,
+        groups: [{ ratio: 1, color: '#ffffff' }],
+        scenes: [{
+            name: 'scene',
+            duration: 5,
+            formation: { type: 'point', center: [0, 50, 0] },
+            lights: { type: 'solid' },
+            ...scene
+        }],
+        ...show
+    };
+}
+
+// JSON.parse gives Infinity for out-of-range numbers
+const INFINITY = JSON.parse('1e999') as number;
+
+const REJECTED: [string, unknown][] = [
+    ['not an object', 'show'],
+    ['no performers', showWith({}, { performers: 0 })],
+    ['fractional performers', showWith({}, { performers: 2.5 })],
+    ['negative spares', showWith({}, { spares: -1 })],
+    ['no groups', showWith({}, { groups: [] })],
+    ['negative group ratio', showWith({}, { groups: [{ ratio: -1, color: '#ffffff' }] })],
+    ['group color not a string', showWith({}, { groups: [{ ratio: 1, color: 0xffffff }] })],
+    ['no scenes', showWith({}, { scenes: [] })],
+    ['scene without a name', showWith({ name: 3 })],
+    ['zero duration', showWith({ duration: 0 })],
+    ['infinite duration', showWith({ duration: INFINITY })],
+    ['unknown formation', showWith({ formation: { type: 'cube' } })],
+    ['unknown lights', showWith({ lights: { type: 'strobe' } })],
+    ['unknown transition', showWith({ transition: 'teleport' })],
+    ['unknown easing', showWith({ easing: 'bounce' })],
+    ['negative transitionTime', showWith({ transitionTime: -1 })],
+    ['point without a center', showWith({ formation: { type: 'point' } })],
+    ['groupRing without a center', showWith({ formation: { type: 'groupRing', radius: 10 } })],
+    ['circle without a center', showWith({ formation: { type: 'circle', radius: 10 } })],
+    ['star without a center', showWith({ formation: { type: 'star', radius: 10 } })],
+    ['center with two coordinates', showWith({ formation: { type: 'point', center: [0, 50] } })],
+    ['infinite center', showWith({ formation: { type: 'point', center: [INFINITY, 50, 0] } })],
+    ['circle without a radius', showWith({ formation: { type: 'circle', center: [0, 50, 0] } })],
+    ['groupRing with zero radius', showWith({ formation: { type: 'groupRing', center: [0, 50, 0], radius: 0 } })],
+    ['star with a string radius', showWith({ formation: { type: 'star', center: [0, 50, 0], radius: '10' } })],
+    ['star with string lobes', showWith({ formation: { type: 'star', center: [0, 50, 0], radius: 10, lobes: 'five' } })],
+    ['points not a list', showWith({ formation: { type: 'points', points: [0, 50, 0] } })],
+    ['points with a bad point', showWith({ formation: { type: 'points', points: [[0, 50, 0], [1, 2]] } })],
+    ['lights color not a string', showWith({ lights: { type: 'solid', color: 0xff0000 } })],
+    ['pulse color not a string', showWith({ lights: { type: 'pulse', period: 1, color: ['#ff0000'] } })],
+    ['infinite intensity', showWith({ lights: { type: 'solid', intensity: INFINITY } })],
+    ['pulse without a period', showWith({ lights: { type: 'pulse' } })],
+    ['pulse with zero period', showWith({ lights: { type: 'pulse', period: 0 } })],
+    ['pulse with string wave', showWith({ lights: { type: 'pulse', period: 1, wave: 'x' } })]
+];
+
+for (const [name, data] of REJECTED) {
+    let error: unknown = null;
+    try {
+        parseShowFile(data);
+    } catch (e) {
+        error = e;
+    }
+    check(`parser rejects ${name}`, error instanceof Error && error.message.startsWith('Show file:'),
+        error ? String(error) : 'accepted');
+}
+
+function accepts(name: string, data: () => unknown): void {
+    try {
+        data();
+    } catch (error) {
+        check(`parser accepts ${name}`, false, String(error));
+    }
+}
+accepts('the demo show', () => demoShow());
+accepts('a minimal show', () => parseShowFile(showWith({})));
+accepts('a hold scene', () => parseShowFile(showWith({ formation: { type: 'hold' }, lights: { type: 'off' } })));
+
+// ========== Slot Assignment ==========
+
+const random = new SeededRandom(7);
+
+function randomPoints(count: number): Vector3[] {
+    return Array.from({ length: count }, () => new Vector3(random.range(0, 100), random.range(0, 100), random.range(0, 100)));
+}
+
+function permutations(items: number[]): number[][] {
+    if (items.length <= 1) return [items];
+    return items.flatMap((item, i) =>
+        permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+}
+
+/**
+ * Squared-length cost and longest squared leg of the matching with the least
+ * cost, over every way to match `drones` to `slots`
+ */
+function bruteForce(drones: Vector3[], slots: Vector3[]): { cost: number; longest: number } {
+    let best = { cost: Infinity, longest: 0 };
+    for (const order of permutations([...Array(Math.max(drones.length, slots.length)).keys()])) {
+        let cost = 0;
+        let longest = 0;
+        drones.forEach((d, i) => {
+            if (order[i] >= slots.length) return;
+            const leg = d.distanceToSquared(slots[order[i]]);
+            cost += leg;
+            longest = Math.max(longest, leg);
+        });
+        if (cost < best.cost) best = { cost, longest };
+    }
+    return best;
+}
+
+// The Hungarian solution is the least-cost matching. The longest-leg pass may
+// trade some of that cost for a shorter longest leg, never a longer one.
+const TOLERANCE = 1e-9;
+for (let trial = 0; trial < 500; trial++) {
+    const drones = randomPoints(1 + Math.floor(random.next() * 6));
+    const slots = randomPoints(1 + Math.floor(random.next() * 6));
+    const name = `assignment ${trial} (${drones.length} drones, ${slots.length} slots)`;
+    const { slotOf } = FormationAssignment.assign(drones, slots);
+
+    const taken = [...slotOf].filter(j => j >= 0);
+    check(`${name} matches every drone or slot once`,
+        taken.length === Math.min(drones.length, slots.length) && new Set(taken).size === taken.length &&
+        taken.every(j => j < slots.length));
+
+    let cost = 0;
+    let longest = 0;
+    slotOf.forEach((j, i) => {
+        if (j < 0) return;
+        const leg = drones[i].distanceToSquared(slots[j]);
+        cost += leg;
+        longest = Math.max(longest, leg);
+    });
+    const best = bruteForce(drones, slots);
+    check(`${name} longest leg`, longest <= best.longest * (1 + TOLERANCE), `${longest} > ${best.longest}`);
+    if (longest >= best.longest * (1 - TOLERANCE)) {
+        check(`${name} total cost`, Math.abs(cost - best.cost) <= best.cost * TOLERANCE + TOLERANCE, `${cost} vs ${best.cost}`);
+    }
+}
+
+let rejected = false;
+try {
+    FormationAssignment.assign([new Vector3(NaN, 0, 0)], [new Vector3()]);
+} catch {
+    rejected = true;
+}
+check('assignment rejects a NaN position', rejected);
+
+if (failures > 0) {
+    console.error(`${failures} check(s) failed`);
+    process.exit(1);
+}
+console.log(`All checks passed (${REJECTED.length} malformed shows, 500 assignments)`);
@@ -0,0 +1,189 @@
+import { closeSync, openSync, readFileSync, writeFileSync, writeSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { BoidConfig } from './BoidConfig';
+import { DEFAULT_SWEEP_TARGET, ParameterSweep, parseSweepSpec, sweepResultsToCSV } from './ParameterSweep';
+import { demoShow, parseShowFile } from './ShowFile';
+import { SimulationDriver } from './SimulationDriver';
+import { metricsToCSV, SwarmMetricsSample } from './SwarmMetrics';
+
+/**
+ * Headless simulation runner for batch experiments (no browser, no display).
+ *
+ *   npm run sim -- --config preset.json --count 2000 --seed 7 --steps 7200 \
+ *       --metrics metrics.csv --trajectories tracks.csv --every 30
+ *
+ *   npm run sim -- --sweep sweep.json --count 300 --steps 1800 \
+ *       --results ranking.csv --preset best.json
+ */
+
+const USAGE = `Usage: npm run sim -- [options]
+
+  --config <file>        Configuration JSON (as written by Export Config)
+  --count <n>            Drone count (default 1000; ignored with --story and --show)
+  --seed <n>             Random seed (overrides the configuration)
+  --steps <n>            Fixed simulation steps to run (default 3600)
+  --story                Play the demo show instead of free flocking
+  --show <file>          Play a show file (JSON, see src/ShowFile.ts); implies --story
+  --plan                 Fly the show's scene changes on planned collision-free paths
+  --metrics <file>       Write every swarm metrics sample as CSV
+  --trajectories <file>  Write drone positions and velocities as CSV
+  --every <n>            Steps between trajectory rows (default 10)
+  --safety <file>        Write the collision / near-miss log as CSV
+
+Parameter sweep (one run of --count drones and --steps steps per point):
+  --sweep <file>         Sweep spec JSON: { mode, ranges, samples, iterations, target }
+  --warmup <n>           Steps before scoring starts (default a quarter of --steps)
+  --results <file>       Write the ranked runs as CSV
+  --preset <file>        Write the best run as a configuration for Import Config
+
+  --help                 Show this message
+`;
+
+function parseCount(value: string | undefined, name: string, fallback: number): number {
+    if (value === undefined) return fallback;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) {
+        throw new Error(`--${name} expects a non-negative integer, got "${value}"`);
+    }
+    return n;
+}
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            config: { type: 'string' },
+            count: { type: 'string' },
+            seed: { type: 'string' },
+            steps: { type: 'string' },
+            story: { type: 'boolean', default: false },
+            show: { type: 'string' },
+            plan: { type: 'boolean', default: false },
+            metrics: { type: 'string' },
+            trajectories: { type: 'string' },
+            every: { type: 'string' },
+            safety: { type: 'string' },
+            sweep: { type: 'string' },
+            warmup: { type: 'string' },
+            results: { type: 'string' },
+            preset: { type: 'string' },
+            help: { type: 'boolean', default: false }
+        }
+    });
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return;
+    }
+
+    const boidCount = parseCount(values.count, 'count', 1000);
+    const steps = parseCount(values.steps, 'steps', 3600);
+    const every = Math.max(1, parseCount(values.every, 'every', 10));
+
+    let config: string | undefined;
+    if (values.config) {
+        config = readFileSync(values.config, 'utf8');
+        JSON.parse(config);     // Fail loudly here; importConfig only logs bad JSON
+    }
+
+    if (values.sweep) {
+        const spec = parseSweepSpec(JSON.parse(readFileSync(values.sweep, 'utf8')));
+        const sweep = new ParameterSweep(config, {
+            boidCount,
+            steps,
+            warmupSteps: parseCount(values.warmup, 'warmup', Math.floor(steps / 4)),
+            seed: values.seed !== undefined ? parseCount(values.seed, 'seed', 0) : seedOf(config),
+            target: { ...DEFAULT_SWEEP_TARGET }
+        });
+        sweep.onResult = (result, index, total) => {
+            const params = Object.entries(result.params).map(([k, v]) => `${k}=${v}`).join(' ');
+            console.log(`[${index + 1}/${total}] score ${result.score.toFixed(4)} · ${params}`);
+        };
+
+        const results = sweep.run(spec);
+        if (values.results) writeFileSync(values.results, sweepResultsToCSV(results));
+        if (values.preset && results.length > 0) writeFileSync(values.preset, sweep.exportPreset(results[0]));
+        if (results.length > 0) {
+            const best = results[0];
+            console.log(`Best: score ${best.score.toFixed(4)} · polarization ${best.polarization.toFixed(3)} · ` +
+                `min separation ${Number.isFinite(best.minSeparation) ? best.minSeparation.toFixed(2) + ' m' : '-'} · collisions ${best.collisions} · ${JSON.stringify(best.params)}`);
+        }
+        return;
+    }
+
+    const show = values.show ? parseShowFile(JSON.parse(readFileSync(values.show, 'utf8'))) : demoShow();
+    const driver = new SimulationDriver({ config, boidCount, show });
+    const boidSystem = driver.boidSystem;
+    if (values.seed !== undefined) boidSystem.setSeed(parseCount(values.seed, 'seed', 0));
+    if (values.plan) boidSystem.config.planTransitions = true;
+    if (values.story || values.show) driver.setStoryRunning(true);
+
+    const samples: SwarmMetricsSample[] = [];
+    const tracks = values.trajectories ? openSync(values.trajectories, 'w') : null;
+    if (tracks !== null) writeSync(tracks, 'step,time,id,x,y,z,vx,vy,vz,state\n');
+
+    const startTime = performance.now();
+    try {
+        for (let step = 0; step < steps; step++) {
+            if (tracks !== null && step % every === 0) {
+                writeSync(tracks, trajectoryRows(driver, step));
+            }
+            driver.step();
+
+            const sample = boidSystem.metrics.latest;
+            if (sample && sample !== samples[samples.length - 1]) samples.push(sample);
+        }
+    } finally {
+        if (tracks !== null) closeSync(tracks);
+    }
+    const elapsed = (performance.now() - startTime) / 1000;
+
+    if (values.metrics) writeFileSync(values.metrics, metricsToCSV(samples));
+    if (values.safety) writeFileSync(values.safety, boidSystem.safety.toCSV());
+
+    const stats = boidSystem.getStats();
+    const last = samples[samples.length - 1];
+    console.log(`${steps} steps (${boidSystem.simulationTime.toFixed(1)} s simulated) with ${stats.boidCount} drones in ${elapsed.toFixed(1)} s`);
+    if (last) {
+        console.log(`Polarization ${last.polarization.toFixed(3)} · milling ${last.angularMomentum.toFixed(3)} · ` +
+            `NN median ${last.nnMedian.toFixed(2)} m · clusters ${last.clusterCount}`);
+    }
+    for (const report of boidSystem.formationReport) {
+        const transition = report.transitionTime > 0
+            ? ` · transition ${report.transitionTime.toFixed(1)} s, ${report.transitionConflicts} unresolved, ` +
+                `${report.crowdedSlots} points closer than ${boidSystem.config.nearMissRadius} m`
+            : '';
+        console.log(`${report.scene}: ${(report.inFormation * 100).toFixed(0)}% in formation · ` +
+            `planned travel ${report.travelTotal.toFixed(0)} m (max leg ${report.travelMax.toFixed(0)} m)${transition}`);
+    }
+    console.log(`Collisions ${stats.collisionEvents} · near misses ${stats.nearMissEvents} · failed drones ${stats.failedDrones}`);
+}
+
+/**
+ * Seed stored in a configuration JSON (the default seed if none)
+ */
+function seedOf(config: string | undefined): number {
+    const seed = config ? JSON.parse(config).seed : undefined;
+    return typeof seed === 'number' ? seed : new BoidConfig().seed;
+}
+
+/**
+ * One CSV row per drone for the current state
+ */
+function trajectoryRows(driver: SimulationDriver, step: number): string {
+    const boidSystem = driver.boidSystem;
+    const time = boidSystem.simulationTime.toFixed(3);
+    let rows = '';
+    for (const b of boidSystem.boids) {
+        const p = b.position;
+        const v = b.velocity;
+        rows += `${step},${time},${b.id},${p.x.toFixed(2)},${p.y.toFixed(2)},${p.z.toFixed(2)},` +
+            `${v.x.toFixed(2)},${v.y.toFixed(2)},${v.z.toFixed(2)},${b.energyState}\n`;
+    }
+    return rows;
+}
+
+try {
+    main();
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+}
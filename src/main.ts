@@ -3,8 +3,9 @@ import { BoidSystem } from './BoidSystem';
 import { BoidConfig } from './BoidConfig';
 import { Scene } from './Scene';
 import { Controls } from './Controls';
-import { StoryController, StoryConfig } from './StoryController';
-import { Color } from 'three';
+import { demoShow } from './ShowFile';
+import { StoryController } from './StoryController';
+import { SimulationWorkerClient } from './SimulationWorkerClient';
 
 /**
  * Main application entry point
@@ -14,6 +15,8 @@ class App {
     private scene: Scene;
     private controls: Controls;
     private storyController: StoryController;
+    // Set while the simulation runs in a Web Worker
+    private worker: SimulationWorkerClient | null = null;
 
     private animationId?: number;
     private lastTime = performance.now();
@@ -24,7 +27,7 @@ class App {
         const config = new BoidConfig();
         config.bounds.min.set(-500, 0, -500);
         config.bounds.max.set(500, 800, 500);
-        config.maxSpeed = 1.0;
+        config.maxSpeed = 60; // m/s
 
         // set the drone size to be larger for better visibility
         config.droneSize = 2.0;
@@ -41,43 +44,17 @@ class App {
         this.controls = new Controls(this.boidSystem, this.scene);
 
         // Initialize Story Controller
-        const groupRatios = [
-            0.337, 0.118, 0.107, 0.079, 0.066,
-            0.065, 0.056, 0.032, 0.022, 0.017,
-            0.016, 0.015, 0.015, 0.007, 0.007,
-            0.006, 0.005, 0.005, 0.004, 0.004,
-            0.004, 0.003, 0.002, 0.002, 0.006
-        ];
-
-        // Use an explicit list of hex colors (one per group) so colors are deterministic
-        const groupHexColors: number[] = [
-            0xFF3B30, 0xFF9500, 0xFFCC00, 0xFFD455, 0xAAFF00,
-            0x00FF5E, 0x00D4FF, 0x007AFF, 0x4B0082, 0x7F00FF,
-            0xFF00C8, 0xFF66B2, 0xFF99A4, 0xFFB347, 0xFF7F50,
-            0xCD5C5C, 0x8B4513, 0x2E8B57, 0x20B2AA, 0x4682B4,
-            0x6A5ACD, 0x9400D3, 0xDC143C, 0xFF1493, 0xFF69B4
-        ];
-
-        const groups = groupRatios.map((ratio, i) => {
-            const hex = groupHexColors[i % groupHexColors.length];
-            const color = new Color(hex);
-            return { ratio, color };
-        });
-
-        const storyConfig: StoryConfig = {
-            totalBoidCount: 1000, // 17189 / 20
-            initialBoidCount: 100, // 700 / 20
-            groups: groups,
-            scene1_duration: 30,
-            scene2_duration: 10,
-            scene3_duration: 20,
-            scene4_duration: 30,
-        };
-        this.storyController = new StoryController(this.boidSystem, storyConfig);
+        this.storyController = new StoryController(this.boidSystem, demoShow());
 
         // Add story mode button to controls
         this.controls.addStoryModeButton(this.storyController);
 
+        // Web Worker mode (toggle in the Performance folder, or start with ?worker=1)
+        this.controls.onWorkerToggle = (enabled) => this.setWorkerMode(enabled);
+        if (new URLSearchParams(location.search).has('worker')) {
+            this.setWorkerMode(true);
+        }
+
         // Start animation loop
         this.animate();
 
@@ -97,14 +74,21 @@ class App {
         // Update FPS (smooth processing)
         this.fps = this.fps * 0.9 + (1000 / deltaTime) * 0.1;
 
-        // Update Story Controller
-        this.storyController.update(deltaTime / 1000); // Convert ms to seconds
-
-        // Update Boid system
-        this.boidSystem.update();
-
-        // Render scene
-        this.scene.render();
+        if (this.worker) {
+            // Draw the latest worker frame, then ask for the next one. Ticking after
+            // rendering keeps the worker from overwriting a shared frame mid-draw.
+            const frame = this.worker.takeFrame();
+            if (frame) this.scene.pushFrame(frame);
+            this.scene.render();
+            this.worker.tick(deltaTime / 1000);
+        } else {
+            // Advance the simulation in fixed steps; the story is driven once per step
+            // so its timing does not depend on the display refresh rate
+            this.boidSystem.update(deltaTime / 1000, (dt) => this.storyController.update(dt));
+
+            // Render scene
+            this.scene.render();
+        }
 
         // Update stats every 30 frames
         if (Math.floor(currentTime / 500) !== Math.floor(this.lastTime / 500)) {
@@ -114,6 +98,29 @@ class App {
         this.lastTime = currentTime;
     };
 
+    /**
+     * Move the simulation into a Web Worker, or back onto the main thread.
+     * The worker starts from the current configuration and swarm size.
+     */
+    private setWorkerMode(enabled: boolean): void {
+        if (enabled === (this.worker !== null)) return;
+
+        if (enabled) {
+            try {
+                this.worker = new SimulationWorkerClient(this.boidSystem, this.storyController.getShow());
+            } catch (error) {
+                console.error('Failed to start simulation worker:', error);
+                return;
+            }
+        } else {
+            this.worker!.terminate();
+            this.worker = null;
+        }
+
+        this.scene.setExternalFrames(enabled);
+        this.controls.setWorker(this.worker);
+    }
+
     /**
      * Show welcome message
      */
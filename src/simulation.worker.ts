@@ -0,0 +1,99 @@
+import { createRenderFrame, RenderFrame, writeRenderFrame } from './RenderFrame';
+import { SimulationDriver } from './SimulationDriver';
+import { WorkerRequest, WorkerResponse } from './WorkerProtocol';
+
+/**
+ * Simulation worker - runs BoidSystem and the story driver off the main thread
+ * and streams render frames back after every tick.
+ */
+
+const ctx = self as unknown as Worker;
+
+let driver: SimulationDriver | null = null;
+let shared = false;
+// Frame buffers owned by the worker (always for shared memory; returned by the main thread otherwise)
+let frame: RenderFrame | null = null;
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+    const message = event.data;
+
+    if (message.type === 'init') {
+        driver = new SimulationDriver({
+            config: message.config,
+            boidCount: message.boidCount,
+            show: message.show,
+            obstacles: message.obstacles,
+            forceFields: message.forceFields
+        });
+        shared = message.shared;
+        frame = createRenderFrame(message.boidCount, shared);
+        return;
+    }
+
+    if (!driver) return;
+    const boidSystem = driver.boidSystem;
+
+    switch (message.type) {
+        case 'tick': {
+            if (message.frame) frame = message.frame;
+            const steps = driver.advance(message.dt);
+            frame = writeRenderFrame(boidSystem, frame ?? createRenderFrame(boidSystem.boids.length, shared), shared);
+
+            const response: WorkerResponse = { type: 'frame', frame, stats: boidSystem.getStats(), steps };
+            if (shared) {
+                ctx.postMessage(response);
+            } else {
+                // Hand the buffers over; the main thread sends them back with the next tick
+                ctx.postMessage(response, [frame.positions.buffer, frame.colors.buffer, frame.scales.buffer]);
+                frame = null;
+            }
+            break;
+        }
+        case 'config':
+            boidSystem.importConfig(message.config);
+            break;
+        case 'initializeBoids':
+            boidSystem.initializeBoids(message.count);
+            break;
+        case 'reset':
+            boidSystem.reset();
+            break;
+        case 'recharge':
+            boidSystem.rechargeAll();
+            break;
+        case 'fault':
+            if (message.delay > 0) {
+                boidSystem.scheduleFault(message.delay, message.fault, message.id);
+            } else {
+                boidSystem.injectFault(message.fault, message.id);
+            }
+            break;
+        case 'geofenceLog': {
+            const response: WorkerResponse = { type: 'geofenceLog', csv: boidSystem.geofence.toCSV() };
+            ctx.postMessage(response);
+            break;
+        }
+        case 'metricsLog': {
+            const response: WorkerResponse = { type: 'metricsLog', csv: boidSystem.metrics.toCSV() };
+            ctx.postMessage(response);
+            break;
+        }
+        case 'safetyLog': {
+            const response: WorkerResponse = { type: 'safetyLog', csv: boidSystem.safety.toCSV() };
+            ctx.postMessage(response);
+            break;
+        }
+        case 'obstacles':
+            driver.setObstacles(message.obstacles);
+            break;
+        case 'forceFields':
+            driver.setForceFields(message.forceFields);
+            break;
+        case 'story':
+            driver.setStoryRunning(message.running);
+            break;
+        case 'show':
+            driver.loadShow(message.show);
+            break;
+    }
+};
@@ -3,7 +3,15 @@ import { defineConfig } from 'vite';
 export default defineConfig({
     server: {
         port: 3000,
-        open: true
+        open: true,
+        // Cross-origin isolation enables SharedArrayBuffer for worker render frames
+        headers: {
+            'Cross-Origin-Opener-Policy': 'same-origin',
+            'Cross-Origin-Embedder-Policy': 'require-corp'
+        }
+    },
+    worker: {
+        format: 'es'
     },
     build: {
         target: 'esnext',